@@ -0,0 +1,121 @@
+/**
+ * Export and delete everything stored for a Spotify ID
+ *
+ * Catalog and embedding caches are keyed by track and shared between users,
+ * so they hold nothing to export or delete.
+ */
+import {
+  deleteUserBlobs,
+  getManifestBlob,
+  getWorldBlob,
+  getWorldVersion,
+  listManifests,
+  listWorldVersions,
+} from './storage';
+import { deleteUserRecords, getUser } from './repository';
+import { forgetUserBucket } from './rate-limiter';
+import { unfollowPlaylist } from './spotify';
+import { isSpotifyApiError } from './spotify-errors';
+import type {
+  AccountDeletionReport,
+  AccountExport,
+  WorldDefinition,
+} from '../src/types';
+
+/**
+ * Bundle the user's record, worlds, runs and feedback
+ */
+export async function exportAccount(
+  spotifyId: string
+): Promise<AccountExport | null> {
+  const user = await getUser(spotifyId);
+  if (!user) return null;
+
+  const versions: WorldDefinition[] = [];
+  for (const { version } of await listWorldVersions(spotifyId)) {
+    const world = await getWorldVersion(spotifyId, version);
+    if (world) versions.push(world);
+  }
+
+  const manifests = [];
+  for (const { timestamp } of await listManifests(spotifyId)) {
+    const manifest = await getManifestBlob(spotifyId, timestamp);
+    if (manifest) manifests.push(manifest);
+  }
+
+  return {
+    exportedAt: Date.now(),
+    user: {
+      spotifyId: user.spotifyId,
+      displayName: user.displayName,
+      email: user.email,
+      country: user.country,
+      createdAt: user.createdAt,
+      lastRunAt: user.lastRunAt,
+      lastWeeklyRefresh: user.lastWeeklyRefresh,
+      loginHistory: user.loginHistory,
+      grantedScopes: user.grantedScopes,
+      settings: user.settings,
+    },
+    worlds: { active: await getWorldBlob(spotifyId), versions },
+    manifests,
+    feedback: { blocklist: user.settings.blocklist },
+  };
+}
+
+/**
+ * Every playlist any of the user's worlds created
+ */
+async function collectPlaylistIds(spotifyId: string): Promise<string[]> {
+  const worlds = [await getWorldBlob(spotifyId)];
+  for (const { version } of await listWorldVersions(spotifyId)) {
+    worlds.push(await getWorldVersion(spotifyId, version));
+  }
+
+  const ids = worlds.flatMap((world) =>
+    Object.values(world?.playlists || {}).map((playlist) => playlist.id)
+  );
+  return [...new Set(ids)];
+}
+
+/**
+ * Delete everything tied to a Spotify ID
+ *
+ * Playlists are unfollowed first, while the user's token is still stored.
+ */
+export async function deleteAccount(
+  spotifyId: string,
+  { unfollowPlaylists = false }: { unfollowPlaylists?: boolean } = {}
+): Promise<AccountDeletionReport> {
+  const playlistsUnfollowed: string[] = [];
+  const playlistsFailed: string[] = [];
+
+  if (unfollowPlaylists) {
+    for (const playlistId of await collectPlaylistIds(spotifyId)) {
+      try {
+        await unfollowPlaylist(playlistId, spotifyId);
+        playlistsUnfollowed.push(playlistId);
+      } catch (error) {
+        // Already gone is as good as unfollowed
+        if (isSpotifyApiError(error) && error.reason === 'not_found') {
+          playlistsUnfollowed.push(playlistId);
+          continue;
+        }
+        console.error(`Failed to unfollow playlist ${playlistId}:`, error);
+        playlistsFailed.push(playlistId);
+      }
+    }
+  }
+
+  const blobs = await deleteUserBlobs(spotifyId);
+  const kvRecords = await deleteUserRecords(spotifyId);
+  await forgetUserBucket(spotifyId);
+
+  return {
+    kvRecords,
+    worlds: blobs.worlds,
+    manifests: blobs.manifests,
+    playlistsUnfollowed,
+    playlistsFailed,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Account endpoint - export or delete everything we store for the user
+ *
+ * GET                          download a JSON archive (see account-data.ts)
+ * DELETE ?unfollowPlaylists=1  delete all data, optionally also unfollowing
+ *                              the generated Spotify playlists
+ */
+import { createHandler, HttpError, json, route } from './http';
+import { deleteAccount, exportAccount } from './account-data';
+import { clearSessionCookie } from './session-store';
+
+export const handler = createHandler('account', {
+  GET: route({
+    errorMessage: 'Failed to export account',
+    handle: async ({ session }) => {
+      const archive = await exportAccount(session.spotifyId);
+      if (!archive) {
+        throw new HttpError(404, 'user_not_found', 'User not found');
+      }
+
+      const date = new Date(archive.exportedAt).toISOString().slice(0, 10);
+      return {
+        statusCode: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="tokyo-record-club-${date}.json"`,
+          'Cache-Control': 'no-store',
+        },
+        body: JSON.stringify(archive, null, 2),
+      };
+    },
+  }),
+
+  DELETE: route({
+    errorMessage: 'Failed to delete account',
+    handle: async ({ session, query }) => {
+      const { spotifyId } = session;
+      const unfollowPlaylists = query.unfollowPlaylists === '1';
+      const report = await deleteAccount(spotifyId, { unfollowPlaylists });
+      console.log(`Deleted account ${spotifyId}:`, JSON.stringify(report));
+
+      // The session was deleted with the rest of the account
+      return json(report, 200, { cookies: [clearSessionCookie()] });
+    },
+  }),
+});
@@ -1,47 +1,41 @@
 /**
- * Authentication middleware and helpers
+ * Authentication helpers (routes get the session through http.ts)
  */
 import type { HandlerEvent } from '@netlify/functions';
-import jwt from 'jsonwebtoken';
-import { parse } from 'cookie';
-import { getUserKV } from './storage';
+import { getUser } from './repository';
+import { readSessionToken, resolveSession } from './session-store';
 import type { UserData } from '../src/types';
 
-interface SessionPayload {
-  spotifyId: string;
-  exp: number;
-}
-
 /**
  * Extract and verify session from request
  */
-export async function getSession(
-  event: HandlerEvent
-): Promise<{ user: UserData; spotifyId: string; accessToken?: string } | null> {
+export async function getSession(event: HandlerEvent): Promise<{
+  user: UserData;
+  spotifyId: string;
+  sessionId: string;
+} | null> {
   try {
     const cookieHeader = event.headers.cookie || '';
     console.log('Cookie header:', cookieHeader ? 'present' : 'missing');
-    
-    const cookies = parse(cookieHeader);
-    const sessionToken = cookies.session;
 
-    if (!sessionToken) {
-      console.log('No session token found in cookies');
+    // Verify JWT
+    const decoded = readSessionToken(cookieHeader);
+    if (!decoded) {
+      console.log('No valid session token found in cookies');
       return null;
     }
 
-    console.log('Session token found, verifying...');
-
-    // Verify JWT
-    const decoded = jwt.verify(
-      sessionToken,
-      process.env.JWT_SECRET || process.env.SESSION_SECRET! // Support both for backward compat
-    ) as SessionPayload;
-
     console.log('JWT verified for user:', decoded.spotifyId);
 
+    // Revoked sessions are gone from the registry
+    const session = await resolveSession(decoded);
+    if (!session) {
+      console.log('Session revoked or expired:', decoded.sid);
+      return null;
+    }
+
     // Get user from KV
-    const user = await getUserKV(decoded.spotifyId);
+    const user = await getUser(decoded.spotifyId);
     if (!user) {
       console.log('User not found in KV:', decoded.spotifyId);
       return null;
@@ -52,59 +46,10 @@ export async function getSession(
     return {
       user,
       spotifyId: decoded.spotifyId,
-      accessToken: user.refreshToken, // Can be used to get fresh access token
+      sessionId: session.id,
     };
   } catch (error) {
     console.error('Session verification error:', error);
     return null;
   }
 }
-
-/**
- * Require authentication - returns 401 if not authenticated
- */
-export async function requireAuth(event: HandlerEvent) {
-  const session = await getSession(event);
-
-  if (!session) {
-    return {
-      statusCode: 401,
-      body: JSON.stringify({ error: 'Unauthorized' }),
-    };
-  }
-
-  return session;
-}
-
-/**
- * Alias for getSession - for backward compatibility
- */
-export async function getUserFromRequest(event: HandlerEvent) {
-  return getSession(event);
-}
-
-/**
- * Create error response
- */
-export function errorResponse(message: string, statusCode = 500) {
-  return {
-    statusCode,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ error: message }),
-  };
-}
-
-/**
- * Create success response
- */
-export function successResponse(data: any, statusCode = 200) {
-  return {
-    statusCode,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  };
-}
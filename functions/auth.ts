@@ -1,46 +1,65 @@
 /**
- * Spotify OAuth - Start authorization flow
+ * Spotify OAuth - Start authorization flow (authorization code with PKCE)
+ *
+ * GET ?returnTo=/path   where to land after signing in (same-site paths only)
+ * GET ?scopes=a b        extra scopes to ask for (incremental consent)
+ *
+ * Signed-in users are asked for what they already granted plus the extra
+ * scopes, so Spotify only prompts for the new ones.
  */
-import type { Handler } from '@netlify/functions';
+import { getSession } from './auth-helpers';
+import { createHandler, HttpError, redirect, route } from './http';
+import {
+  createOAuthState,
+  sanitizeReturnTo,
+  serializeOAuthStateCookie,
+} from './oauth-state';
+import { filterKnownScopes, LOGIN_SCOPES, parseScopes } from './scopes';
 
-const SPOTIFY_SCOPES = [
-  'user-read-email',
-  'user-top-read',
-  'user-read-recently-played',
-  'playlist-read-private',
-  'playlist-modify-public',
-  'playlist-modify-private',
-  'ugc-image-upload',
-].join(' ');
+export const handler = createHandler('auth', {
+  GET: route({
+    // Signing in is optional here - it only widens the scopes asked for
+    auth: false,
+    handle: async ({ event, query }) => {
+      const clientId = process.env.SPOTIFY_CLIENT_ID;
+      const redirectUri = process.env.SPOTIFY_REDIRECT_URI;
 
-export const handler: Handler = async () => {
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const redirectUri = process.env.SPOTIFY_REDIRECT_URI;
+      if (!clientId || !redirectUri) {
+        throw new HttpError(
+          500,
+          'missing_configuration',
+          'Missing Spotify configuration'
+        );
+      }
 
-  if (!clientId || !redirectUri) {
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: 'Missing Spotify configuration' }),
-    };
-  }
+      const session = await getSession(event);
+      const scopes = [
+        ...new Set([
+          ...LOGIN_SCOPES,
+          ...(session?.user.grantedScopes || []),
+          ...filterKnownScopes(parseScopes(query.scopes)),
+        ]),
+      ];
 
-  // Generate random state for CSRF protection
-  const state = Math.random().toString(36).substring(7);
+      // State (CSRF) and PKCE verifier go in a signed cookie for the callback
+      const oauthState = createOAuthState(
+        sanitizeReturnTo(query.returnTo),
+        scopes
+      );
 
-  const authUrl = new URL('https://accounts.spotify.com/authorize');
-  authUrl.searchParams.append('client_id', clientId);
-  authUrl.searchParams.append('response_type', 'code');
-  authUrl.searchParams.append('redirect_uri', redirectUri);
-  authUrl.searchParams.append('scope', SPOTIFY_SCOPES);
-  authUrl.searchParams.append('state', state);
-  authUrl.searchParams.append('show_dialog', 'false');
+      const authUrl = new URL('https://accounts.spotify.com/authorize');
+      authUrl.searchParams.append('client_id', clientId);
+      authUrl.searchParams.append('response_type', 'code');
+      authUrl.searchParams.append('redirect_uri', redirectUri);
+      authUrl.searchParams.append('scope', scopes.join(' '));
+      authUrl.searchParams.append('state', oauthState.state);
+      authUrl.searchParams.append('code_challenge_method', 'S256');
+      authUrl.searchParams.append('code_challenge', oauthState.codeChallenge);
+      authUrl.searchParams.append('show_dialog', 'false');
 
-  return {
-    statusCode: 302,
-    headers: {
-      Location: authUrl.toString(),
-      'Cache-Control': 'no-cache',
+      return redirect(authUrl.toString(), {
+        cookies: [serializeOAuthStateCookie(oauthState)],
+      });
     },
-    body: '',
-  };
-};
+  }),
+});
@@ -5,10 +5,18 @@
  * Hybrid approach: Spotify features + OpenAI embeddings + GPT-4 world extraction
  */
 
-import { Handler } from '@netlify/functions';
-import { getUserFromRequest } from './auth-helpers';
-import { getTracks, getAudioFeatures, getArtists } from './spotify';
-import { setUserKV, putWorldBlob, cacheTrackData, getCachedTrackData } from './storage';
+import { z } from 'zod';
+import { createHandler, json, route } from './http';
+import { summarizeFeatureCoverage } from './spotify';
+import {
+  getCatalogTracks,
+  getCatalogArtists,
+  getCatalogAudioFeatures,
+  getCatalogCacheStats
+} from './catalog-cache';
+import { getUser } from './repository';
+import { putWorldBlob } from './storage';
+import { createJob, advanceJob, completeJob, failJob, JobCancelledError } from './job-store';
 import { generateEmbeddings, extractWorldDefinition } from './openai-client';
 import { 
   computeCentroid, 
@@ -25,78 +33,62 @@ import type {
   OnboardingAnswers 
 } from '../src/types';
 
-interface BuildWorldRequest {
-  seedTrackIds: string[];
-  onboardingAnswers: OnboardingAnswers;
-}
+const MAX_SEED_TRACKS = 500;
+
+const answerListSchema = z.array(z.string().max(100)).max(20);
+const customAnswerSchema = z.string().max(500);
+
+const onboardingAnswersSchema: z.ZodType<OnboardingAnswers> = z.object({
+  texture: answerListSchema,
+  texture_custom: customAnswerSchema,
+  atmosphere: answerListSchema,
+  atmosphere_custom: customAnswerSchema,
+  tempo: answerListSchema,
+  tempo_custom: customAnswerSchema,
+  instrumentation: answerListSchema,
+  instrumentation_custom: customAnswerSchema,
+  avoid: answerListSchema,
+  avoid_custom: customAnswerSchema,
+});
+
+const buildWorldBodySchema = z.object({
+  seedTrackIds: z
+    .array(z.string().regex(/^[A-Za-z0-9]+$/, 'Invalid Spotify track ID'))
+    .min(1)
+    .max(MAX_SEED_TRACKS),
+  onboardingAnswers: onboardingAnswersSchema,
+});
 
 /**
  * Main world building handler
  */
-export const handler: Handler = async (event) => {
-  if (event.httpMethod !== 'POST') {
-    return { statusCode: 405, body: 'Method Not Allowed' };
-  }
-
-  try {
-    // Verify auth
-    const session = await getUserFromRequest(event);
-    if (!session || !session.accessToken) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized - missing access token' })
-      };
-    }
-
-    // Parse request
-    const body = JSON.parse(event.body || '{}') as BuildWorldRequest;
-    const { seedTrackIds, onboardingAnswers } = body;
-
-    if (!seedTrackIds?.length || !onboardingAnswers) {
-      return {
-        statusCode: 400,
-        body: JSON.stringify({ error: 'Missing seedTrackIds or onboardingAnswers' })
-      };
-    }
-
-    // Start async world building
-    const jobId = `world-${session.spotifyId}-${Date.now()}`;
-    
-    // Store job status in KV
-    await setUserKV(`job:${jobId}`, {
-      status: 'building',
-      startedAt: Date.now(),
-      progress: 0
-    });
-
-    // Build world asynchronously (don't await - return immediately)
-    buildWorldAsync(session.spotifyId, seedTrackIds, onboardingAnswers, jobId)
-      .catch(error => {
-        console.error('World building failed:', error);
-        setUserKV(`job:${jobId}`, {
-          status: 'failed',
-          error: error.message,
-          failedAt: Date.now()
+export const handler = createHandler('build-world', {
+  POST: route({
+    body: buildWorldBodySchema,
+    errorMessage: 'Failed to start world building',
+    handle: async ({ session, body }) => {
+      const { seedTrackIds, onboardingAnswers } = body;
+
+      // Start async world building
+      const { id: jobId } = await createJob(session.spotifyId, 'build-world');
+
+      // Build world asynchronously (don't await - return immediately)
+      buildWorldAsync(session.spotifyId, seedTrackIds, onboardingAnswers, jobId)
+        .catch(error => {
+          if (!(error instanceof JobCancelledError)) {
+            console.error('World building failed:', error);
+          }
+          return failJob(session.spotifyId, jobId, error);
         });
-      });
 
-    return {
-      statusCode: 202, // Accepted
-      body: JSON.stringify({ 
+      return json({ 
         jobId,
         message: 'World building started',
         pollUrl: `/api/world-status?jobId=${jobId}`
-      })
-    };
-
-  } catch (error) {
-    console.error('Build world error:', error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: 'Failed to start world building' })
-    };
-  }
-};
+      }, 202); // Accepted
+    },
+  }),
+});
 
 /**
  * Async world building workflow
@@ -111,26 +103,33 @@ async function buildWorldAsync(
   console.log(`[${jobId}] Starting world build for user ${userId} with ${seedTrackIds.length} seeds`);
 
   // Step 1: Fetch seed tracks (with caching)
-  await updateProgress(jobId, 10, 'Fetching seed tracks...');
-  const seedTracks = await fetchSeedTracks(userId, seedTrackIds);
+  await advanceJob(userId, jobId, 10, 'Fetching seed tracks...');
+  const user = await getUser(userId);
+  const seedTracks = await fetchSeedTracks(userId, seedTrackIds, user?.country);
 
   // Step 2: Get audio features (with caching)
-  await updateProgress(jobId, 25, 'Analyzing audio features...');
+  await advanceJob(userId, jobId, 25, 'Analyzing audio features...');
   const audioFeatures = await fetchAudioFeatures(userId, seedTrackIds);
+  const featureCoverage = summarizeFeatureCoverage(seedTrackIds, audioFeatures);
+  if (featureCoverage.missingTrackIds.length > 0) {
+    console.warn(
+      `[${jobId}] No audio features for ${featureCoverage.missingTrackIds.length}/${featureCoverage.total} seed tracks`
+    );
+  }
 
   // Step 3: Get artist data for genres
-  await updateProgress(jobId, 35, 'Fetching artist genres...');
+  await advanceJob(userId, jobId, 35, 'Fetching artist genres...');
   const artistIds = [...new Set(seedTracks.map(t => t.artistId).filter(Boolean))] as string[];
-  const artists = await getArtists(artistIds, userId);
+  const artists = await getCatalogArtists(artistIds, userId);
   const artistGenres = new Map(artists.map(a => [a.id, a.genres]));
 
   // Step 4: Enrich tracks with metadata
-  await updateProgress(jobId, 45, 'Enriching track data...');
-  const enrichedTracks: EnrichedTrack[] = seedTracks.map((track, i) => {
+  await advanceJob(userId, jobId, 45, 'Enriching track data...');
+  const enrichedTracks: EnrichedTrack[] = seedTracks.map(track => {
     const trackGenres = artistGenres.get(track.artistId || '') || [];
     return {
       ...track,
-      audioFeatures: audioFeatures[i],
+      audioFeatures: audioFeatures.get(track.id),
       genres: trackGenres,
       artistGenres: trackGenres,
       primaryGenre: trackGenres[0] || 'unknown',
@@ -139,28 +138,33 @@ async function buildWorldAsync(
   });
 
   // Step 5: Compute taste centroid with PCA
-  await updateProgress(jobId, 55, 'Computing taste vector...');
-  const featureVectors = audioFeatures.map(f => audioFeaturesToVector(f));
+  await advanceJob(userId, jobId, 55, 'Computing taste vector...');
+  // Tracks without features are left out of the feature-space math
+  const seedFeatures = enrichedTracks.flatMap(t => t.audioFeatures ? [t.audioFeatures] : []);
+  if (seedFeatures.length === 0) {
+    throw new Error('None of the seed tracks have audio features. Try different seeds.');
+  }
+  const featureVectors = seedFeatures.map(f => audioFeaturesToVector(f));
   const tasteCentroid = computeCentroid(featureVectors);
-  const featureRanges = computeFeatureRanges(audioFeatures);
+  const featureRanges = computeFeatureRanges(seedFeatures);
 
   // Step 6: Generate text embeddings for semantic understanding
-  await updateProgress(jobId, 65, 'Generating semantic embeddings...');
+  await advanceJob(userId, jobId, 65, 'Generating semantic embeddings...');
   const descriptions = enrichedTracks.map(track => 
     `${track.artist} - ${track.name}. Album: ${track.album}. ` +
-    `Genres: ${(track.genres || []).join(', ')}. Year: ${track.releaseYear}. ` +
-    `Style: ${inferStyle(track.audioFeatures)}`
+    `Genres: ${(track.genres || []).join(', ')}. Year: ${track.releaseYear}.` +
+    (track.audioFeatures ? ` Style: ${inferStyle(track.audioFeatures)}` : '')
   );
   
   const embeddings = await generateEmbeddings(descriptions);
   const semanticCentroid = computeCentroid(embeddings);
 
   // Step 7: Extract world definition with GPT-4
-  await updateProgress(jobId, 80, 'Extracting world definition...');
+  await advanceJob(userId, jobId, 80, 'Extracting world definition...');
   const conversationTranscript = formatAnswersForGPT(answers as unknown as Record<string, string[]>);
   const topGenres = extractTopGenres(enrichedTracks, 10);
   const topArtists = [...new Set(seedTracks.map(t => t.artistId).filter(Boolean))] as string[];
-  const avgFeatures = computeAverageFeatures(audioFeatures);
+  const avgFeatures = computeAverageFeatures(seedFeatures);
 
   const worldDef = await extractWorldDefinition(
     conversationTranscript,
@@ -177,7 +181,7 @@ async function buildWorldAsync(
   );
 
   // Step 8: Build final world object
-  await updateProgress(jobId, 90, 'Finalizing world...');
+  await advanceJob(userId, jobId, 90, 'Finalizing world...');
   const world: WorldDefinition = {
     id: `world-${userId}-${Date.now()}`,
     userId,
@@ -222,60 +226,29 @@ async function buildWorldAsync(
   };
 
   // Step 9: Save to Blob storage
-  await updateProgress(jobId, 95, 'Saving world...');
-  await putWorldBlob(userId, world);
-
-  // Step 10: Update user record in KV
-  await setUserKV(`user:${userId}`, {
-    hasWorld: true,
-    worldId: world.id,
-    worldCreatedAt: world.createdAt,
-    lastUpdated: Date.now()
-  });
+  await advanceJob(userId, jobId, 95, 'Saving world...');
+  const worldVersion = await putWorldBlob(userId, world);
 
   // Mark job complete
-  await updateProgress(jobId, 100, 'Complete!');
-  await setUserKV(`job:${jobId}`, {
-    status: 'complete',
+  await completeJob(userId, jobId, {
     worldId: world.id,
-    completedAt: Date.now()
+    worldVersion,
+    featureCoverage
   });
 
   console.log(`[${jobId}] World building complete: ${world.name}`);
+  console.log(`[${jobId}] Catalog cache:`, JSON.stringify(getCatalogCacheStats()));
 }
 
 /**
- * Fetch seed tracks with caching
+ * Fetch seed tracks with caching, relinked for the user's market
  */
 async function fetchSeedTracks(
   spotifyId: string,
-  trackIds: string[]
+  trackIds: string[],
+  market?: string
 ): Promise<SpotifyTrack[]> {
-  const tracks: SpotifyTrack[] = [];
-  const uncachedIds: string[] = [];
-
-  // Check cache first
-  for (const id of trackIds) {
-    const cached = await getCachedTrackData(id);
-    if (cached) {
-      tracks.push(cached);
-    } else {
-      uncachedIds.push(id);
-    }
-  }
-
-  // Fetch uncached tracks
-  if (uncachedIds.length > 0) {
-    const fetched = await getTracks(uncachedIds, spotifyId);
-    tracks.push(...fetched);
-
-    // Cache them
-    for (const track of fetched) {
-      await cacheTrackData(track.id, track);
-    }
-  }
-
-  return tracks;
+  return await getCatalogTracks(trackIds, spotifyId, market);
 }
 
 /**
@@ -284,8 +257,8 @@ async function fetchSeedTracks(
 async function fetchAudioFeatures(
   spotifyId: string,
   trackIds: string[]
-): Promise<SpotifyAudioFeatures[]> {
-  return await getAudioFeatures(trackIds, spotifyId);
+): Promise<Map<string, SpotifyAudioFeatures>> {
+  return await getCatalogAudioFeatures(trackIds, spotifyId);
 }
 
 /**
@@ -391,14 +364,3 @@ function parseIntersectionBias(
   return bias;
 }
 
-/**
- * Update job progress in KV
- */
-async function updateProgress(jobId: string, progress: number, status: string): Promise<void> {
-  await setUserKV(`job:${jobId}`, {
-    status: 'building',
-    progress,
-    currentStep: status,
-    updatedAt: Date.now()
-  });
-}
@@ -0,0 +1,109 @@
+import { randomBytes } from 'crypto';
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { handler } from './callback';
+import { createOAuthState, serializeOAuthStateCookie } from './oauth-state';
+import { getUser } from './repository';
+import { LOGIN_SCOPES } from './scopes';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { buildFixtureCatalog, createSpotifyStandIn } from './spotify-fixtures';
+import { setSpotifyTransport } from './spotify-transport';
+
+const catalog = buildFixtureCatalog(1);
+const standIn = createSpotifyStandIn(catalog);
+
+// Token exchange fails while this is set
+let rejectCodes = false;
+
+async function callback(
+  query: Record<string, string>,
+  withState = true
+): Promise<HandlerResponse> {
+  const oauthState = createOAuthState('/', LOGIN_SCOPES);
+  const cookie = withState
+    ? serializeOAuthStateCookie(oauthState).split(';')[0]
+    : '';
+  const event = {
+    httpMethod: 'GET',
+    headers: { cookie },
+    queryStringParameters: { state: oauthState.state, ...query },
+    body: null,
+    isBase64Encoded: false,
+  } as unknown as HandlerEvent;
+  return (await handler(event, {} as never)) as HandlerResponse;
+}
+
+function clearsState(response: HandlerResponse): boolean {
+  const cookies = (response.multiValueHeaders?.['Set-Cookie'] ||
+    []) as string[];
+  return cookies.some(
+    (cookie) => cookie.startsWith('oauth_state=;') && /Max-Age=0/.test(cookie)
+  );
+}
+
+describe('callback', () => {
+  beforeAll(() => {
+    vi.stubEnv('JWT_SECRET', 'callback-test-secret'.padEnd(40, 'x'));
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+    vi.stubEnv('SPOTIFY_CLIENT_ID', 'fixture-client');
+    vi.stubEnv('SPOTIFY_REDIRECT_URI', 'https://example.test/callback');
+    setStorageBackend(createMemoryBackend);
+    setSpotifyTransport(async (url, init) =>
+      rejectCodes && new URL(url).pathname === '/api/token'
+        ? new Response(JSON.stringify({ error: 'invalid_grant' }), {
+            status: 400,
+          })
+        : standIn(url, init)
+    );
+  });
+
+  afterAll(() => {
+    setSpotifyTransport(null);
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  it('signs the user in and clears the state cookie', async () => {
+    const response = await callback({ code: 'fixture-code' });
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers?.Location).toBe('/seeds');
+    expect(clearsState(response)).toBe(true);
+    expect(await getUser(catalog.user.id)).not.toBeNull();
+  });
+
+  it.each([
+    [
+      'a missing state cookie',
+      { code: 'fixture-code' },
+      false,
+      'invalid_state',
+    ],
+    [
+      'a denied authorization',
+      { error: 'access_denied' },
+      true,
+      'access_denied',
+    ],
+    ['a missing code', {}, true, 'missing_code'],
+  ])('redirects on %s', async (_, query, withState, code) => {
+    const response = await callback(query, withState);
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers?.Location).toBe(`/?error=${code}`);
+    expect(clearsState(response)).toBe(true);
+  });
+
+  it('redirects and clears the state cookie when the exchange fails', async () => {
+    rejectCodes = true;
+    const response = await callback({ code: 'used-code' });
+    rejectCodes = false;
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers?.Location).toBe('/?error=authentication_failed');
+    expect(clearsState(response)).toBe(true);
+  });
+});
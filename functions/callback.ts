@@ -1,107 +1,150 @@
 /**
- * Spotify OAuth Callback - Exchange code for tokens
+ * Spotify OAuth Callback - Verify state, exchange code for tokens
+ *
+ * Signing in again updates the stored user rather than replacing it, so
+ * settings and history survive. If the stored user can't be read the login
+ * fails rather than replacing it with defaults. Without a returnTo, users
+ * with a world go to /results and everyone else to /seeds. Failed logins go
+ * back to /?error=... with the state cookie cleared.
  */
-import type { Handler, HandlerEvent } from '@netlify/functions';
-import jwt from 'jsonwebtoken';
-import { serialize } from 'cookie';
-import { exchangeCodeForTokens } from './spotify';
-import { setUserKV } from './storage';
-import type { UserData } from '../src/types';
-
-export const handler: Handler = async (event: HandlerEvent) => {
-  const code = event.queryStringParameters?.code;
-  const error = event.queryStringParameters?.error;
-  // const state = event.queryStringParameters?.state; // Can use for CSRF later
-
-  // Handle authorization errors
-  if (error) {
-    return {
-      statusCode: 302,
-      headers: {
-        Location: `/?error=${encodeURIComponent(error)}`,
-        'Cache-Control': 'no-cache',
-      } as { [key: string]: string },
-      body: '',
-    };
-  }
+import type { HandlerEvent } from '@netlify/functions';
+import { createHandler, redirect, route, type HttpResponse } from './http';
+import { exchangeCodeForTokens, getProfileWithToken } from './spotify';
+import { getUserStrict, saveUser, UnreadableRecordError } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import { getWorldBlob } from './storage';
+import {
+  clearOAuthStateCookie,
+  verifyOAuthState,
+  type OAuthState,
+} from './oauth-state';
+import { createSession, describeDevice } from './session-store';
+import { encryptToken } from './token-crypto';
+import { parseScopes } from './scopes';
+import type { SpotifyAuthTokens, SpotifyUser, UserData } from '../src/types';
 
-  if (!code) {
-    return {
-      statusCode: 400,
-      body: JSON.stringify({ error: 'Missing authorization code' }),
-    };
-  }
+const LOGIN_HISTORY_LIMIT = 20;
+
+/**
+ * Create the user, or refresh the profile and tokens of an existing one;
+ * throws UnreadableRecordError when the existing one can't be read
+ */
+async function upsertUser(
+  profile: SpotifyUser,
+  tokens: SpotifyAuthTokens,
+  requestedScopes: string[],
+  device: string
+): Promise<UserData> {
+  const existing = await getUserStrict(profile.id);
+  const now = Date.now();
 
-  try {
-    // Exchange code for tokens
-    const tokens = await exchangeCodeForTokens(code);
-
-    // Get user profile
-    const userResponse = await fetch('https://api.spotify.com/v1/me', {
-      headers: {
-        Authorization: `Bearer ${tokens.access_token}`,
-      },
-    });
-
-    if (!userResponse.ok) {
-      throw new Error('Failed to fetch user profile');
-    }
-
-    const spotifyUser = await userResponse.json();
-
-    // Create user data
-    const userData: UserData = {
-      spotifyId: spotifyUser.id,
-      displayName: spotifyUser.display_name || spotifyUser.id,
-      email: spotifyUser.email,
-      refreshToken: tokens.refresh_token!,
-      createdAt: Date.now(),
-      settings: {
-        cadence: 'weekly',
-        continuity: 0.3,
-        blocklist: [],
-        weeklyEnabled: true,
-      },
-    };
-
-    // Store user in KV
-    await setUserKV(`user:${spotifyUser.id}`, userData);
-
-    // Create session JWT
-    const sessionToken = jwt.sign(
-      {
-        spotifyId: spotifyUser.id,
-        exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 30, // 30 days
-      },
-      process.env.JWT_SECRET || process.env.SESSION_SECRET! // Support both for backward compat
-    );
-
-    // Set secure HTTP-only cookie
-    const cookie = serialize('session', sessionToken, {
-      httpOnly: true,
-      secure: true, // Always secure on Netlify
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-      path: '/',
-    });
-
-    return {
-      statusCode: 302,
-      headers: {
-        Location: '/',  // Redirect to home for now until /seeds page is created
-        'Set-Cookie': cookie,
-        'Cache-Control': 'no-cache',
-      },
-      body: '',
-    };
-  } catch (error) {
-    console.error('OAuth callback error:', error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({
-        error: 'Authentication failed',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      }),
-    };
+  // Spotify always returns one here, but never drop a token we have
+  const refreshToken = tokens.refresh_token
+    ? encryptToken(tokens.refresh_token, profile.id)
+    : existing?.refreshToken;
+  if (!refreshToken) {
+    throw new Error('Spotify returned no refresh token');
   }
-};
+
+  return saveUser({
+    ...existing,
+    spotifyId: profile.id,
+    displayName: profile.display_name || profile.id,
+    email: profile.email,
+    country: profile.country,
+    refreshToken,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: now + tokens.expires_in * 1000,
+    // The token response lists what was granted; fall back to what we asked
+    grantedScopes: tokens.scope ? parseScopes(tokens.scope) : requestedScopes,
+    createdAt: existing?.createdAt ?? now,
+    loginHistory: [
+      { at: now, device },
+      ...(existing?.loginHistory || []),
+    ].slice(0, LOGIN_HISTORY_LIMIT),
+    settings: existing?.settings ?? DEFAULT_USER_SETTINGS,
+  });
+}
+
+/**
+ * Back to the landing page with an error code, clearing the state cookie
+ */
+function loginFailed(code: string): HttpResponse {
+  return redirect(`/?error=${encodeURIComponent(code)}`, {
+    cookies: [clearOAuthStateCookie()],
+  });
+}
+
+/**
+ * Exchange the code, store the user and start their session
+ */
+async function completeLogin(
+  event: HandlerEvent,
+  code: string,
+  oauthState: OAuthState
+): Promise<HttpResponse> {
+  // Exchange code for tokens
+  const tokens = await exchangeCodeForTokens(code, oauthState.codeVerifier);
+
+  // Get user profile
+  const spotifyUser = await getProfileWithToken(tokens.access_token);
+
+  // Store user in KV, keeping what we already know about them
+  const userAgent = event.headers['user-agent'];
+  await upsertUser(
+    spotifyUser,
+    tokens,
+    oauthState.scopes,
+    describeDevice(userAgent)
+  );
+
+  // Register the session and set it as a secure HTTP-only cookie
+  const cookie = await createSession(spotifyUser.id, userAgent);
+
+  // Back where they started, or on to the next step
+  const hasWorld = !!(await getWorldBlob(spotifyUser.id));
+  const location =
+    oauthState.returnTo !== '/'
+      ? oauthState.returnTo
+      : hasWorld
+        ? '/results'
+        : '/seeds';
+
+  return redirect(location, {
+    cookies: [cookie, clearOAuthStateCookie()],
+  });
+}
+
+export const handler = createHandler('callback', {
+  GET: route({
+    // This is where the session comes from
+    auth: false,
+    errorMessage: 'Authentication failed',
+    handle: async ({ event, query }) => {
+      const { code, error } = query;
+
+      // The state cookie is single-use, whatever happens next
+      const oauthState = verifyOAuthState(event.headers.cookie, query.state);
+
+      // Handle authorization errors, and callbacks we didn't start (login CSRF)
+      if (error || !oauthState) {
+        return loginFailed(error || 'invalid_state');
+      }
+
+      if (!code) {
+        return loginFailed('missing_code');
+      }
+
+      try {
+        return await completeLogin(event, code, oauthState);
+      } catch (error) {
+        if (error instanceof UnreadableRecordError) {
+          console.error('Refusing to replace unreadable user record:', error);
+          return loginFailed('account_unavailable');
+        }
+        console.error('Login failed:', error);
+        return loginFailed('authentication_failed');
+      }
+    },
+  }),
+});
@@ -0,0 +1,32 @@
+/**
+ * Cancel Job - stop one of the current user's background jobs
+ *
+ * POST { jobId }   the pipeline stops before its next step
+ */
+import { z } from 'zod';
+import { createHandler, HttpError, json, route } from './http';
+import { cancelJob, isJobFinished } from './job-store';
+
+const cancelJobBodySchema = z.object({
+  jobId: z.string().min(1),
+});
+
+export const handler = createHandler('cancel-job', {
+  POST: route({
+    body: cancelJobBodySchema,
+    errorMessage: 'Failed to cancel job',
+    handle: async ({ session, body }) => {
+      const job = await cancelJob(session.spotifyId, body.jobId);
+      if (!job) {
+        throw new HttpError(404, 'job_not_found', 'Job not found');
+      }
+      if (job.status !== 'cancelled' && isJobFinished(job)) {
+        throw new HttpError(409, 'job_finished', `Job already ${job.status}`, {
+          job,
+        });
+      }
+
+      return json({ job }, 202);
+    },
+  }),
+});
@@ -0,0 +1,263 @@
+/**
+ * Candidate sources - independent ways of finding tracks for a world
+ *
+ * Each source harvests on its own; a failing source (e.g. Recommendations,
+ * which Spotify restricts for newer apps) only loses its own candidates.
+ * The merger dedupes by track ID and records which sources found each track.
+ */
+import {
+  getRecommendations,
+  getArtistAlbumIds,
+  getAlbumTracks,
+  getTracks,
+  getPlaylistTracks,
+  searchTracks,
+  searchPlaylists,
+} from './spotify';
+import type {
+  SpotifyAudioFeatures,
+  SpotifyTrack,
+  WorldDefinition,
+} from '../src/types';
+
+export interface CandidateSourceContext {
+  spotifyId: string;
+  world: WorldDefinition;
+  market?: string; // User's country, so Spotify reports playability
+}
+
+export interface CandidateSource {
+  name: string;
+  harvest(context: CandidateSourceContext): Promise<SpotifyTrack[]>;
+}
+
+export interface HarvestedCandidate extends SpotifyTrack {
+  sources: string[]; // Names of the sources that produced this track
+}
+
+export interface SourceReport {
+  count: number;
+  error?: string;
+}
+
+/**
+ * Spotify Recommendations seeded from the world's seed tracks
+ */
+export const recommendationsSource: CandidateSource = {
+  name: 'recommendations',
+  async harvest({ spotifyId, world, market }) {
+    const seeds = (world.seedTrackIds || world.seedTracks || []).slice(0, 30);
+    if (seeds.length === 0) return [];
+
+    const avg = averageFeaturesFromCentroid(world);
+    const calls = [
+      { seed_tracks: seeds.slice(0, 5) },
+      {
+        seed_tracks: seeds.slice(5, 10),
+        target_acousticness: avg.acousticness || 0.5,
+        target_valence: avg.valence || 0.5,
+        target_energy: avg.energy || 0.5,
+      },
+      {
+        seed_tracks: seeds.slice(10, 15),
+        target_tempo: avg.tempo || 120,
+        target_instrumentalness: avg.instrumentalness || 0.1,
+      },
+      // Biased toward low valence (darker)
+      {
+        seed_tracks: seeds.slice(15, 20),
+        target_valence: Math.max(0, (avg.valence || 0.5) - 0.2),
+        target_energy: Math.max(0, (avg.energy || 0.5) - 0.1),
+      },
+      // Biased toward high acousticness (organic)
+      {
+        seed_tracks: seeds.slice(20, 25),
+        target_acousticness: Math.min(1, (avg.acousticness || 0.5) + 0.2),
+      },
+      {
+        seed_tracks: seeds.slice(25, 30),
+        target_danceability: avg.danceability || 0.5,
+      },
+    ].filter((params) => params.seed_tracks.length > 0);
+
+    const tracks: SpotifyTrack[] = [];
+    for (const params of calls) {
+      tracks.push(
+        ...(await getRecommendations(
+          { ...params, limit: 100 },
+          spotifyId,
+          market
+        ))
+      );
+    }
+    return tracks;
+  },
+};
+
+/**
+ * Walk the albums and singles of the world's seed artists
+ */
+export const artistCatalogSource: CandidateSource = {
+  name: 'artist-catalog',
+  async harvest({ spotifyId, world, market }) {
+    const artistIds = (world.topArtists || []).slice(0, 10);
+
+    const albumIds: string[] = [];
+    for (const artistId of artistIds) {
+      // Cap releases per artist to keep the walk bounded
+      albumIds.push(
+        ...(await getArtistAlbumIds(artistId, spotifyId, 10)).slice(0, 6)
+      );
+    }
+
+    return getAlbumTracks(albumIds, spotifyId, market);
+  },
+};
+
+/**
+ * Search the catalog by the world's genres and keywords
+ */
+export const searchSource: CandidateSource = {
+  name: 'search',
+  async harvest({ spotifyId, world, market }) {
+    const queries = [
+      ...(world.topGenres || []).slice(0, 5).map((genre) => `genre:"${genre}"`),
+      ...(world.keywords || []).slice(0, 5),
+    ];
+
+    const tracks: SpotifyTrack[] = [];
+    for (const query of queries) {
+      tracks.push(...(await searchTracks(query, spotifyId, 50, market)));
+    }
+    return tracks;
+  },
+};
+
+/**
+ * Mine public playlists that contain the world's seed tracks
+ *
+ * Spotify has no "playlists containing this track" lookup, so we search
+ * playlists by seed track name and artist and keep the ones that actually
+ * contain a seed.
+ */
+export const playlistMiningSource: CandidateSource = {
+  name: 'playlist-mining',
+  async harvest({ spotifyId, world, market }) {
+    const seedIds = world.seedTrackIds || world.seedTracks || [];
+    const seedSet = new Set(seedIds);
+    const probes = (await getTracks(seedIds.slice(0, 5), spotifyId)).filter(
+      Boolean
+    );
+
+    const tracks: SpotifyTrack[] = [];
+    const visited = new Set<string>();
+
+    for (const probe of probes) {
+      const query = `${probe.name} ${probe.artists[0]?.name || ''}`.trim();
+      const playlists = await searchPlaylists(query, spotifyId, 5);
+
+      for (const playlist of playlists) {
+        if (visited.has(playlist.id)) continue;
+        visited.add(playlist.id);
+
+        const playlistTracks = (
+          await getPlaylistTracks(playlist.id, spotifyId, 200, market)
+        ).filter((track) => track && track.id);
+
+        if (playlistTracks.some((track) => seedSet.has(track.id))) {
+          tracks.push(...playlistTracks);
+        }
+      }
+    }
+
+    return tracks;
+  },
+};
+
+export const DEFAULT_CANDIDATE_SOURCES: CandidateSource[] = [
+  recommendationsSource,
+  artistCatalogSource,
+  searchSource,
+  playlistMiningSource,
+];
+
+/**
+ * Merge source results, deduping by track ID and keeping source attribution
+ */
+export function mergeCandidates(
+  results: Array<{ source: string; tracks: SpotifyTrack[] }>
+): HarvestedCandidate[] {
+  const merged = new Map<string, HarvestedCandidate>();
+
+  for (const { source, tracks } of results) {
+    for (const track of tracks) {
+      // Local files and unavailable tracks come back without an ID
+      if (!track || !track.id) continue;
+
+      const existing = merged.get(track.id);
+      if (existing) {
+        if (!existing.sources.includes(source)) existing.sources.push(source);
+      } else {
+        merged.set(track.id, { ...track, sources: [source] });
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Run every source and merge what they found
+ */
+export async function harvestFromSources(
+  context: CandidateSourceContext,
+  sources: CandidateSource[] = DEFAULT_CANDIDATE_SOURCES
+): Promise<{
+  candidates: HarvestedCandidate[];
+  report: Record<string, SourceReport>;
+}> {
+  const settled = await Promise.allSettled(
+    sources.map((source) => source.harvest(context))
+  );
+
+  const report: Record<string, SourceReport> = {};
+  const results: Array<{ source: string; tracks: SpotifyTrack[] }> = [];
+
+  settled.forEach((outcome, i) => {
+    const source = sources[i].name;
+    if (outcome.status === 'fulfilled') {
+      results.push({ source, tracks: outcome.value });
+      report[source] = { count: outcome.value.length };
+    } else {
+      const message =
+        outcome.reason instanceof Error
+          ? outcome.reason.message
+          : String(outcome.reason);
+      console.warn(`Candidate source ${source} failed: ${message}`);
+      report[source] = { count: 0, error: message };
+    }
+  });
+
+  return { candidates: mergeCandidates(results), report };
+}
+
+/**
+ * Average features from the world's taste centroid
+ */
+function averageFeaturesFromCentroid(
+  world: WorldDefinition
+): Partial<SpotifyAudioFeatures> {
+  const centroid = world.tasteCentroid;
+
+  return {
+    acousticness: centroid[0],
+    danceability: centroid[1],
+    energy: centroid[2],
+    instrumentalness: centroid[3],
+    liveness: centroid[4],
+    loudness: centroid[5],
+    speechiness: centroid[6],
+    valence: centroid[7],
+    tempo: centroid[8],
+  };
+}
@@ -0,0 +1,157 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import {
+  getCatalogCacheStats,
+  getCatalogEntries,
+  isExpired,
+  resetCatalogCacheStats,
+  setCatalogEntries,
+  sweepCatalogCache,
+  type CatalogKind,
+} from './catalog-cache';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+async function cacheOne(kind: CatalogKind, id: string): Promise<void> {
+  await setCatalogEntries(kind, new Map([[id, { id }]]));
+}
+
+async function isCached(kind: CatalogKind, id: string): Promise<boolean> {
+  const { hits } = await getCatalogEntries(kind, [id]);
+  return hits.has(id);
+}
+
+describe('isExpired', () => {
+  it('expires entries once their TTL has passed', () => {
+    const metadata = { cachedAt: String(START), ttl: '60' };
+
+    expect(isExpired(metadata, START + 60 * 1000)).toBe(false);
+    expect(isExpired(metadata, START + 60 * 1000 + 1)).toBe(true);
+  });
+
+  it('never expires entries with a TTL of 0', () => {
+    expect(isExpired({ cachedAt: String(START), ttl: '0' }, START + 1e12)).toBe(
+      false
+    );
+  });
+
+  it('gives entries without a TTL a day', () => {
+    const metadata = { cachedAt: String(START) };
+
+    expect(isExpired(metadata, START + 24 * HOUR)).toBe(false);
+    expect(isExpired(metadata, START + 24 * HOUR + 1)).toBe(true);
+  });
+});
+
+describe('catalog cache', () => {
+  let run = 0;
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  // Fresh stores per test; memory stores are shared by name
+  beforeEach(() => {
+    run++;
+    setStorageBackend((name) => createMemoryBackend(`${name}-${run}`));
+  });
+
+  afterEach(() => {
+    resetCatalogCacheStats();
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    setStorageBackend(null);
+  });
+
+  it('keeps tracks for 6 hours and artists for a day', async () => {
+    vi.setSystemTime(START);
+    await cacheOne('track', 'track-1');
+    await cacheOne('artist', 'artist-1');
+
+    vi.setSystemTime(START + 6 * HOUR);
+    expect(await isCached('track', 'track-1')).toBe(true);
+
+    vi.setSystemTime(START + 6 * HOUR + 1000);
+    expect(await isCached('track', 'track-1')).toBe(false);
+    expect(await isCached('artist', 'artist-1')).toBe(true);
+
+    vi.setSystemTime(START + 24 * HOUR + 1000);
+    expect(await isCached('artist', 'artist-1')).toBe(false);
+  });
+
+  it('keeps audio features until they are overwritten', async () => {
+    vi.setSystemTime(START);
+    await cacheOne('audioFeatures', 'track-2');
+
+    vi.setSystemTime(START + 365 * 24 * HOUR);
+    expect(await isCached('audioFeatures', 'track-2')).toBe(true);
+  });
+
+  it('counts expired entries as misses', async () => {
+    vi.setSystemTime(START);
+    await setCatalogEntries(
+      'track',
+      new Map([
+        ['fresh', { id: 'fresh' }],
+        ['stale', { id: 'stale' }],
+      ])
+    );
+    vi.setSystemTime(START + 7 * HOUR);
+    await cacheOne('track', 'fresh');
+
+    const { hits, misses } = await getCatalogEntries('track', [
+      'fresh',
+      'stale',
+      'never-cached',
+      'fresh',
+    ]);
+
+    expect([...hits.keys()]).toEqual(['fresh']);
+    expect(misses).toEqual(['stale', 'never-cached']);
+    expect(getCatalogCacheStats().track).toEqual({
+      hits: 1,
+      misses: 2,
+      expired: 1,
+      writes: 3,
+    });
+  });
+
+  it('keeps entries for one market apart from the others', async () => {
+    vi.setSystemTime(START);
+    await setCatalogEntries('track', new Map([['t', { id: 't' }]]), 'SE');
+
+    expect((await getCatalogEntries('track', ['t'], 'SE')).hits.has('t')).toBe(
+      true
+    );
+    expect((await getCatalogEntries('track', ['t'], 'US')).misses).toEqual([
+      't',
+    ]);
+    expect(await isCached('track', 't')).toBe(false);
+  });
+
+  it('sweeps only expired entries', async () => {
+    vi.setSystemTime(START);
+    await cacheOne('track', 'old-track');
+    await cacheOne('audioFeatures', 'old-features');
+    vi.setSystemTime(START + 2 * 24 * HOUR);
+    await cacheOne('track', 'new-track');
+
+    expect(await sweepCatalogCache()).toEqual({ scanned: 3, evicted: 1 });
+    expect(await isCached('track', 'old-track')).toBe(false);
+    expect(await isCached('track', 'new-track')).toBe(true);
+    expect(await isCached('audioFeatures', 'old-features')).toBe(true);
+    expect(await sweepCatalogCache()).toEqual({ scanned: 2, evicted: 0 });
+  });
+});
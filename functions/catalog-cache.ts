@@ -0,0 +1,238 @@
+/**
+ * Read-through cache for Spotify catalog data
+ *
+ * Each kind has its own TTL: audio features never change, while tracks and
+ * artists carry popularity counts that go stale. Lookups and writes are
+ * batched so large seeds don't turn into one Blob round-trip per ID.
+ */
+import { getArtists, getAudioFeatures, getTracks } from './spotify';
+import {
+  deleteCacheBlobs,
+  getCacheBlobs,
+  listCacheBlobMetadata,
+  setCacheBlobs,
+} from './storage';
+import type {
+  SpotifyArtist,
+  SpotifyAudioFeatures,
+  SpotifyTrack,
+} from '../src/types';
+
+export type CatalogKind = 'track' | 'artist' | 'audioFeatures';
+
+export interface CatalogCacheStats {
+  hits: number;
+  misses: number; // Includes expired entries
+  expired: number;
+  writes: number;
+}
+
+// Seconds; 0 keeps an entry until it is overwritten
+const CATALOG_TTLS: Record<CatalogKind, number> = {
+  track: 6 * 60 * 60,
+  artist: 24 * 60 * 60,
+  audioFeatures: 0,
+};
+
+const CATALOG_PREFIXES: Record<CatalogKind, string> = {
+  track: 'tracks/',
+  artist: 'artists/',
+  audioFeatures: 'audio-features/',
+};
+
+// Entries written before TTLs were per kind
+const DEFAULT_TTL = 24 * 60 * 60;
+
+const stats = new Map<CatalogKind, CatalogCacheStats>();
+
+function statsFor(kind: CatalogKind): CatalogCacheStats {
+  let kindStats = stats.get(kind);
+  if (!kindStats) {
+    kindStats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+    stats.set(kind, kindStats);
+  }
+  return kindStats;
+}
+
+// Market-specific entries (playability) live under the market's code
+function cacheKey(kind: CatalogKind, id: string, market?: string): string {
+  return `${CATALOG_PREFIXES[kind]}${market ? `${market}/` : ''}${id}.json`;
+}
+
+/**
+ * Whether an entry's metadata says it has expired
+ */
+export function isExpired(
+  metadata: Record<string, string>,
+  now = Date.now()
+): boolean {
+  const cachedAt = parseInt(metadata.cachedAt || '0', 10);
+  const ttl = parseInt(metadata.ttl ?? String(DEFAULT_TTL), 10);
+  return ttl > 0 && now - cachedAt > ttl * 1000;
+}
+
+/**
+ * Get cached entries by ID; returns hits and the IDs still to fetch
+ */
+export async function getCatalogEntries<T>(
+  kind: CatalogKind,
+  ids: string[],
+  market?: string
+): Promise<{ hits: Map<string, T>; misses: string[] }> {
+  const unique = [...new Set(ids)];
+  const blobs = await getCacheBlobs(
+    unique.map((id) => cacheKey(kind, id, market))
+  );
+  const kindStats = statsFor(kind);
+
+  const hits = new Map<string, T>();
+  const misses: string[] = [];
+  for (const id of unique) {
+    const blob = blobs.get(cacheKey(kind, id, market));
+    if (blob && !isExpired(blob.metadata)) {
+      hits.set(id, JSON.parse(blob.data));
+      kindStats.hits++;
+    } else {
+      if (blob) kindStats.expired++;
+      misses.push(id);
+      kindStats.misses++;
+    }
+  }
+
+  return { hits, misses };
+}
+
+/**
+ * Cache entries by ID with the kind's TTL
+ */
+export async function setCatalogEntries<T>(
+  kind: CatalogKind,
+  entries: Map<string, T>,
+  market?: string
+): Promise<void> {
+  const metadata = {
+    cachedAt: Date.now().toString(),
+    ttl: CATALOG_TTLS[kind].toString(),
+  };
+
+  await setCacheBlobs(
+    [...entries].map(([id, value]) => ({
+      key: cacheKey(kind, id, market),
+      data: JSON.stringify(value),
+      metadata,
+    }))
+  );
+  statsFor(kind).writes += entries.size;
+}
+
+/**
+ * Look IDs up in the cache, fetch the rest and cache what came back
+ */
+async function readThrough<T>(
+  kind: CatalogKind,
+  ids: string[],
+  fetchMissing: (ids: string[]) => Promise<Map<string, T>>,
+  market?: string
+): Promise<Map<string, T>> {
+  const { hits, misses } = await getCatalogEntries<T>(kind, ids, market);
+  if (misses.length === 0) return hits;
+
+  const fetched = await fetchMissing(misses);
+  await setCatalogEntries(kind, fetched, market);
+
+  return new Map([...hits, ...fetched]);
+}
+
+function byId<T extends { id: string }>(
+  items: Array<T | null>
+): Map<string, T> {
+  return new Map(
+    items.filter((item): item is T => !!item).map((item) => [item.id, item])
+  );
+}
+
+/**
+ * Tracks in request order; unknown IDs (e.g. local files) are left out.
+ * With a market, tracks carry playability for it and are cached per market.
+ */
+export async function getCatalogTracks(
+  trackIds: string[],
+  spotifyId: string,
+  market?: string
+): Promise<SpotifyTrack[]> {
+  const tracks = await readThrough<SpotifyTrack>(
+    'track',
+    trackIds,
+    async (ids) => byId(await getTracks(ids, spotifyId, market)),
+    market
+  );
+  return trackIds.flatMap((id) => tracks.get(id) || []);
+}
+
+/**
+ * Artists in request order
+ */
+export async function getCatalogArtists(
+  artistIds: string[],
+  spotifyId: string
+): Promise<SpotifyArtist[]> {
+  const artists = await readThrough<SpotifyArtist>(
+    'artist',
+    artistIds,
+    async (ids) => byId(await getArtists(ids, spotifyId))
+  );
+  return artistIds.flatMap((id) => artists.get(id) || []);
+}
+
+/**
+ * Audio features keyed by track ID (see getAudioFeatures)
+ */
+export function getCatalogAudioFeatures(
+  trackIds: string[],
+  spotifyId: string
+): Promise<Map<string, SpotifyAudioFeatures>> {
+  return readThrough('audioFeatures', trackIds, (ids) =>
+    getAudioFeatures(ids, spotifyId)
+  );
+}
+
+/**
+ * Hit/miss counts per kind since the process started (or the last reset)
+ */
+export function getCatalogCacheStats(): Record<CatalogKind, CatalogCacheStats> {
+  return {
+    track: { ...statsFor('track') },
+    artist: { ...statsFor('artist') },
+    audioFeatures: { ...statsFor('audioFeatures') },
+  };
+}
+
+/**
+ * Reset the hit/miss counters
+ */
+export function resetCatalogCacheStats(): void {
+  stats.clear();
+}
+
+/**
+ * Delete every expired catalog entry
+ */
+export async function sweepCatalogCache(
+  now = Date.now()
+): Promise<{ scanned: number; evicted: number }> {
+  let scanned = 0;
+  let evicted = 0;
+
+  for (const prefix of Object.values(CATALOG_PREFIXES)) {
+    const entries = await listCacheBlobMetadata(prefix);
+    const expired = entries
+      .filter((entry) => isExpired(entry.metadata, now))
+      .map((entry) => entry.key);
+
+    await deleteCacheBlobs(expired);
+    scanned += entries.length;
+    evicted += expired.length;
+  }
+
+  return { scanned, evicted };
+}
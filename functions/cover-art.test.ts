@@ -0,0 +1,53 @@
+import jpeg from 'jpeg-js';
+import { describe, expect, it } from 'vitest';
+import { renderCoverArt } from './cover-art';
+import type { EmotionalGeometry, WorldDefinition } from '../src/types';
+
+// Spotify's limit on the base64 body of a cover upload
+const UPLOAD_LIMIT = 256 * 1024;
+
+function world(
+  geometry: Partial<EmotionalGeometry> = {},
+  keywords = ['night', 'rain']
+): WorldDefinition {
+  return {
+    userId: 'someone',
+    keywords,
+    emotionalGeometry: {
+      darkness_warmth: 0,
+      intimate_expansive: 0,
+      acoustic_electronic: 0,
+      ...geometry,
+    },
+  } as WorldDefinition;
+}
+
+describe('renderCoverArt', () => {
+  it('renders the same bytes for the same world and intersection', () => {
+    const first = renderCoverArt(world(), 'Night Drive');
+
+    expect(renderCoverArt(world(), 'Night Drive')).toBe(first);
+    expect(renderCoverArt(world(), 'Morning Fog')).not.toBe(first);
+  });
+
+  it('renders a square JPEG', () => {
+    const image = jpeg.decode(
+      Buffer.from(renderCoverArt(world(), 'Night Drive'), 'base64')
+    );
+
+    expect([image.width, image.height]).toEqual([640, 640]);
+  });
+
+  // Intimate, electronic worlds get the busiest, most saturated covers
+  it.each(['Night Drive', 'Morning Fog', 'Static Bloom', 'Low Tide', 'Ember'])(
+    'keeps the cover for %s under the upload limit',
+    (name) => {
+      const cover = renderCoverArt(
+        world({ intimate_expansive: -1, acoustic_electronic: 1 }),
+        name
+      );
+
+      expect(cover.length).toBeLessThanOrEqual(UPLOAD_LIMIT);
+    }
+  );
+});
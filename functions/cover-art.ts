@@ -0,0 +1,228 @@
+/**
+ * Cover art - deterministic playlist covers rendered to JPEG
+ *
+ * The pattern and its layout come from the intersection name, so each
+ * playlist keeps a recognizable cover across weekly refreshes. Colours come
+ * from the world's emotional geometry (nudged by its keywords), so covers
+ * drift with the world's mood rather than jumping around.
+ */
+import { createHash } from 'crypto';
+import jpeg from 'jpeg-js';
+import { createRandom } from './math-utils';
+import type { EmotionalGeometry, WorldDefinition } from '../src/types';
+
+type Rgb = [number, number, number];
+type Pattern = 'rings' | 'waves' | 'strata' | 'dots';
+
+interface CoverPalette {
+  background: Rgb;
+  midtone: Rgb;
+  accent: Rgb;
+}
+
+const COVER_SIZE = 640;
+const PATTERNS: Pattern[] = ['rings', 'waves', 'strata', 'dots'];
+
+// Spotify rejects cover uploads over 256KB of base64
+const MAX_COVER_BYTES = 256 * 1024;
+const JPEG_QUALITIES = [90, 80, 70, 60, 50];
+
+/**
+ * Stable 32-bit seed for a string
+ */
+function seedFrom(text: string): number {
+  return createHash('sha256').update(text).digest().readUInt32BE(0);
+}
+
+function clamp(value: number, min = -1, max = 1): number {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : 0));
+}
+
+/**
+ * HSL (hue in degrees, s/l in 0-1) to RGB
+ */
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const hp = (((h % 360) + 360) % 360) / 60;
+  const x = c * (1 - Math.abs((hp % 2) - 1));
+  const [r, g, b] =
+    hp < 1
+      ? [c, x, 0]
+      : hp < 2
+        ? [x, c, 0]
+        : hp < 3
+          ? [0, c, x]
+          : hp < 4
+            ? [0, x, c]
+            : hp < 5
+              ? [x, 0, c]
+              : [c, 0, x];
+  const m = l - c / 2;
+  return [
+    Math.round((r + m) * 255),
+    Math.round((g + m) * 255),
+    Math.round((b + m) * 255),
+  ];
+}
+
+/**
+ * Palette from emotional geometry
+ *
+ * Dark worlds sit in blues and violets, warm ones in ambers and roses;
+ * acoustic worlds are muted, electronic ones saturated.
+ */
+function paletteFor(
+  geometry: EmotionalGeometry,
+  keywords: string[]
+): CoverPalette {
+  const warmth = clamp(geometry.darkness_warmth);
+  const electronic = clamp(geometry.acoustic_electronic);
+
+  // Keywords shift the hue a little so sibling worlds don't look identical
+  const keywordShift =
+    keywords.length > 0
+      ? (seedFrom(
+          keywords
+            .map((k) => k.toLowerCase())
+            .sort()
+            .join('|')
+        ) %
+          31) -
+        15
+      : 0;
+
+  const hue = 230 - (warmth + 1) * 110 + keywordShift;
+  const saturation = 0.3 + (electronic + 1) * 0.2;
+  const lightness = 0.12 + (warmth + 1) * 0.08;
+
+  return {
+    background: hslToRgb(hue, saturation, lightness),
+    midtone: hslToRgb(hue + 25, saturation, lightness + 0.2),
+    accent: hslToRgb(hue + 150, Math.min(1, saturation + 0.2), 0.62),
+  };
+}
+
+/**
+ * Field function for a pattern: (x, y) in 0-1 → intensity in 0-1
+ */
+function patternField(
+  pattern: Pattern,
+  random: () => number,
+  density: number
+): (x: number, y: number) => number {
+  // Intimate worlds get tight, busy patterns; expansive ones broad sweeps
+  const frequency = 3 + density * 9;
+  const phase = random() * Math.PI * 2;
+
+  switch (pattern) {
+    case 'rings': {
+      const cx = 0.2 + random() * 0.6;
+      const cy = 0.2 + random() * 0.6;
+      return (x, y) =>
+        0.5 +
+        0.5 * Math.sin(Math.hypot(x - cx, y - cy) * frequency * 6 + phase);
+    }
+    case 'waves': {
+      const amplitude = 0.03 + random() * 0.08;
+      const ripple = 1 + Math.floor(random() * 4);
+      return (x, y) =>
+        0.5 +
+        0.5 *
+          Math.sin(
+            (y + amplitude * Math.sin(x * Math.PI * 2 * ripple + phase)) *
+              frequency *
+              Math.PI *
+              2
+          );
+    }
+    case 'strata': {
+      const bands = Array.from({ length: Math.round(frequency) + 2 }, () =>
+        random()
+      );
+      const tilt = (random() - 0.5) * 0.3;
+      return (x, y) => {
+        const position = clamp(y + tilt * (x - 0.5), 0, 0.9999);
+        return bands[Math.floor(position * bands.length)];
+      };
+    }
+    case 'dots': {
+      const cells = Math.round(frequency);
+      const radii = Array.from(
+        { length: cells * cells },
+        () => 0.15 + random() * 0.3
+      );
+      return (x, y) => {
+        const cx = Math.min(cells - 1, Math.floor(x * cells));
+        const cy = Math.min(cells - 1, Math.floor(y * cells));
+        const dx = x * cells - cx - 0.5;
+        const dy = y * cells - cy - 0.5;
+        const edge = radii[cy * cells + cx] - Math.hypot(dx, dy);
+        return clamp(0.5 + edge * 12, 0, 1);
+      };
+    }
+  }
+}
+
+/**
+ * Render a cover to raw RGBA pixels
+ */
+function renderPixels(
+  world: WorldDefinition,
+  intersectionName: string
+): Buffer {
+  const seed = seedFrom(`${world.userId}:${intersectionName}`);
+  const random = createRandom(seed);
+  const pattern = PATTERNS[seed % PATTERNS.length];
+  const palette = paletteFor(world.emotionalGeometry, world.keywords || []);
+  const density =
+    1 - (clamp(world.emotionalGeometry.intimate_expansive) + 1) / 2;
+  const field = patternField(pattern, random, density);
+
+  const grain = createRandom(seed ^ 0x9e3779b9);
+  const data = Buffer.alloc(COVER_SIZE * COVER_SIZE * 4);
+
+  for (let py = 0; py < COVER_SIZE; py++) {
+    const y = py / COVER_SIZE;
+    for (let px = 0; px < COVER_SIZE; px++) {
+      const x = px / COVER_SIZE;
+      const value = field(x, y);
+
+      // Darken towards the edges for depth
+      const vignette = 1 - 0.35 * Math.hypot(x - 0.5, y - 0.5);
+      // Peaks of the field pick up the accent colour
+      const accent = Math.max(0, (value - 0.85) / 0.15);
+      const noise = (grain() - 0.5) * 6;
+
+      const offset = (py * COVER_SIZE + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        const base =
+          palette.background[c] +
+          (palette.midtone[c] - palette.background[c]) * value;
+        const mixed = base + (palette.accent[c] - base) * accent * 0.8;
+        data[offset + c] = clamp(mixed * vignette + noise, 0, 255);
+      }
+      data[offset + 3] = 255;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Render an intersection's cover as a base64 JPEG ready for upload
+ */
+export function renderCoverArt(
+  world: WorldDefinition,
+  intersectionName: string
+): string {
+  const pixels = renderPixels(world, intersectionName);
+
+  for (const quality of JPEG_QUALITIES) {
+    const encoded = jpeg
+      .encode({ data: pixels, width: COVER_SIZE, height: COVER_SIZE }, quality)
+      .data.toString('base64');
+    if (encoded.length <= MAX_COVER_BYTES) return encoded;
+  }
+
+  throw new Error(`Cover for ${intersectionName} is too large to upload`);
+}
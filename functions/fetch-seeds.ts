@@ -1,165 +1,160 @@
 /**
- * Fetch seeds endpoint - Get user's listening history, playlists, or search tracks
+ * Fetch seeds endpoint - Get user's listening history, playlists, library, or search tracks
  */
-import type { Handler, HandlerEvent } from '@netlify/functions';
-import { requireAuth, errorResponse, successResponse } from './auth-helpers';
+import { z } from 'zod';
+import { createHandler, json, route } from './http';
 import {
   getTopTracks,
   getRecentlyPlayed,
-  getUserPlaylists,
   getPlaylistTracks,
-  searchTracks,
+  getSavedTracks,
+  getSavedAlbums,
+  getFollowedArtists,
+  getArtistTopTracks,
+  isTrackPlayable,
 } from './spotify';
-import type { SeedSelection } from '../src/types';
-
-export const handler: Handler = async (event: HandlerEvent) => {
-  // Require authentication
-  const auth = await requireAuth(event);
-  if ('statusCode' in auth) {
-    return auth;
-  }
-
-  const { spotifyId } = auth;
-
-  // Parse request body
-  if (!event.body) {
-    return errorResponse('Missing request body', 400);
-  }
-
-  try {
-    const seedSelection: SeedSelection = JSON.parse(event.body);
-
-    let tracks: any[] = [];
-
-    // Handle different seed types
-    switch (seedSelection.type) {
-      case 'history':
-        {
-          const period = seedSelection.historyPeriod || 'medium_term';
-
-          if (period === 'recent') {
-            tracks = await getRecentlyPlayed(spotifyId, 50);
-          } else {
-            tracks = await getTopTracks(spotifyId, period, 50);
-          }
-        }
-        break;
-
-      case 'playlists':
-        {
-          if (!seedSelection.playlistIds || seedSelection.playlistIds.length === 0) {
-            return errorResponse('No playlist IDs provided', 400);
+import type { SpotifyTrack } from '../src/types';
+
+// Library seeds are capped so a huge library doesn't swamp the world build
+const MAX_LIKED_SEEDS = 250;
+const MAX_SAVED_ALBUMS = 30;
+const TRACKS_PER_ALBUM = 5;
+const MAX_FOLLOWED_ARTISTS = 25;
+const TRACKS_PER_ARTIST = 5;
+
+// Explicit track IDs come without the rest of the track
+type SeedTrack = Pick<SpotifyTrack, 'id'> & Partial<SpotifyTrack>;
+
+// A SeedSelection (see src/types.ts), with the IDs its type needs
+const seedSelectionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('history'),
+    historyPeriod: z
+      .enum(['recent', 'short_term', 'medium_term', 'long_term'])
+      .optional(),
+  }),
+  z.object({
+    type: z.literal('playlists'),
+    playlistIds: z
+      .array(z.string().min(1))
+      .min(1, 'No playlist IDs provided'),
+  }),
+  z.object({
+    type: z.literal('tracks'),
+    trackIds: z.array(z.string().min(1)).min(1, 'No track IDs provided'),
+  }),
+  z.object({ type: z.literal('liked') }),
+  z.object({ type: z.literal('albums') }),
+  z.object({ type: z.literal('artists') }),
+]);
+
+export const handler = createHandler('fetch-seeds', {
+  POST: route({
+    body: seedSelectionSchema,
+    errorMessage: 'Failed to fetch seeds',
+    handle: async ({ session, body: seedSelection }) => {
+      const { spotifyId } = session;
+      // Spotify relinks tracks and reports playability for the user's country
+      const market = session.user.country;
+
+      let tracks: SeedTrack[] = [];
+
+      // Handle different seed types
+      switch (seedSelection.type) {
+        case 'history':
+          {
+            const period = seedSelection.historyPeriod || 'medium_term';
+
+            if (period === 'recent') {
+              tracks = await getRecentlyPlayed(spotifyId, 50);
+            } else {
+              tracks = await getTopTracks(spotifyId, period, 50);
+            }
           }
-
-          // Fetch tracks from all selected playlists
-          const allTracks = await Promise.all(
-            seedSelection.playlistIds.map((playlistId) =>
-              getPlaylistTracks(playlistId, spotifyId)
-            )
-          );
-
-          // Flatten and deduplicate
-          const trackMap = new Map();
-          for (const playlistTracks of allTracks) {
-            for (const track of playlistTracks) {
-              if (track && track.id) {
-                trackMap.set(track.id, track);
+          break;
+
+        case 'playlists':
+          {
+            // Fetch tracks from all selected playlists
+            const allTracks = await Promise.all(
+              seedSelection.playlistIds.map((playlistId) =>
+                getPlaylistTracks(playlistId, spotifyId, Infinity, market)
+              )
+            );
+
+            // Flatten and deduplicate
+            const trackMap = new Map<string, SpotifyTrack>();
+            for (const playlistTracks of allTracks) {
+              for (const track of playlistTracks) {
+                if (track && track.id) {
+                  trackMap.set(track.id, track);
+                }
               }
             }
+            tracks = Array.from(trackMap.values());
           }
-          tracks = Array.from(trackMap.values());
-        }
-        break;
-
-      case 'tracks':
-        {
-          if (!seedSelection.trackIds || seedSelection.trackIds.length === 0) {
-            return errorResponse('No track IDs provided', 400);
-          }
-
-          // Track IDs are already provided
-          tracks = seedSelection.trackIds.map((id) => ({ id }));
-        }
-        break;
-
-      default:
-        return errorResponse('Invalid seed type', 400);
-    }
-
-    // Return track IDs and basic info
-    return successResponse({
-      trackIds: tracks.map((t) => t.id).filter(Boolean),
-      trackCount: tracks.length,
-      type: seedSelection.type,
-    });
-  } catch (error) {
-    console.error('Error fetching seeds:', error);
-    return errorResponse('Failed to fetch seeds');
-  }
-};
+          break;
 
-/**
- * Get user playlists endpoint (for playlist selector)
- */
-export const playlistsHandler: Handler = async (event: HandlerEvent) => {
-  const auth = await requireAuth(event);
-  if ('statusCode' in auth) {
-    return auth;
-  }
-
-  const { spotifyId } = auth;
-
-  try {
-    const playlists = await getUserPlaylists(spotifyId);
-
-    // Return simplified playlist data
-    return successResponse({
-      playlists: playlists.map((p) => ({
-        id: p.id,
-        name: p.name,
-        description: p.description,
-        trackCount: p.tracks.total,
-        image: p.images[0]?.url || null,
-        owner: p.owner.display_name,
-      })),
-    });
-  } catch (error) {
-    console.error('Error fetching playlists:', error);
-    return errorResponse('Failed to fetch playlists');
-  }
-};
+        case 'tracks':
+          {
+            // Track IDs are already provided
+            tracks = seedSelection.trackIds.map((id) => ({ id }));
+          }
+          break;
 
-/**
- * Search tracks endpoint (for individual track selection)
- */
-export const searchHandler: Handler = async (event: HandlerEvent) => {
-  const auth = await requireAuth(event);
-  if ('statusCode' in auth) {
-    return auth;
-  }
-
-  const { spotifyId } = auth;
-  const { q } = event.queryStringParameters || {};
-
-  if (!q) {
-    return errorResponse('Missing search query', 400);
-  }
-
-  try {
-    const tracks = await searchTracks(q, spotifyId, 20);
-
-    return successResponse({
-      tracks: tracks.map((t) => ({
-        id: t.id,
-        name: t.name,
-        artist: t.artists[0]?.name || 'Unknown',
-        album: t.album.name,
-        image: t.album.images[0]?.url || null,
-        preview_url: t.preview_url,
-      })),
-    });
-  } catch (error) {
-    console.error('Error searching tracks:', error);
-    return errorResponse('Failed to search tracks');
-  }
-};
+        case 'liked':
+          {
+            tracks = await getSavedTracks(spotifyId, MAX_LIKED_SEEDS);
+          }
+          break;
+
+        case 'albums':
+          {
+            const albums = await getSavedAlbums(spotifyId, MAX_SAVED_ALBUMS);
+
+            // Album track listings are simplified objects without the album
+            tracks = albums.flatMap((album) =>
+              album.tracks.items.slice(0, TRACKS_PER_ALBUM).map((track) => ({
+                ...track,
+                album: {
+                  id: album.id,
+                  name: album.name,
+                  release_date: album.release_date,
+                  images: album.images,
+                },
+              }))
+            );
+          }
+          break;
+
+        case 'artists':
+          {
+            const artists = await getFollowedArtists(
+              spotifyId,
+              MAX_FOLLOWED_ARTISTS
+            );
+
+            const topTracks = await Promise.all(
+              artists.map((artist) =>
+                getArtistTopTracks(artist.id, spotifyId, market || 'from_token')
+              )
+            );
+            tracks = topTracks.flatMap((artistTracks) =>
+              artistTracks.slice(0, TRACKS_PER_ARTIST)
+            );
+          }
+          break;
+      }
+
+      // Seeds the user can't play would never make it into a playlist
+      tracks = tracks.filter(isTrackPlayable);
+
+      // Return track IDs and basic info
+      return json({
+        trackIds: tracks.map((t) => t.id).filter(Boolean),
+        trackCount: tracks.length,
+        type: seedSelection.type,
+      });
+    },
+  }),
+});
@@ -2,21 +2,33 @@
  * Generate Playlists - Main recommendation engine
  * 
  * Takes a world definition → harvests candidates → scores → buckets → creates playlists
- * Hybrid approach: Spotify Recommendations + OpenAI embeddings + local scoring
+ * Hybrid approach: multiple candidate sources + OpenAI embeddings + local scoring
  */
 
-import { Handler } from '@netlify/functions';
-import { getUserFromRequest } from './auth-helpers';
-import { getWorldBlob, setUserKV } from './storage';
+import { createHandler, HttpError, json, route } from './http';
+import {
+  getWorldBlob,
+  updateActiveWorldBlob,
+  putManifestBlob
+} from './storage';
+import { getUser } from './repository';
+import { createJob, advanceJob, completeJob, failJob, JobCancelledError } from './job-store';
+import {
+  getCatalogArtists,
+  getCatalogAudioFeatures,
+  getCatalogCacheStats
+} from './catalog-cache';
 import { 
-  getRecommendations, 
-  getAudioFeatures, 
-  getArtists,
+  summarizeFeatureCoverage,
+  isTrackPlayable,
   createPlaylist,
-  replacePlaylistTracks,
   uploadPlaylistCover
 } from './spotify';
 import { generateEmbeddings } from './openai-client';
+import { harvestFromSources, type HarvestedCandidate } from './candidate-sources';
+import { syncPlaylist } from './playlist-sync';
+import { renderCoverArt } from './cover-art';
+import { isSpotifyApiError } from './spotify-errors';
 import { 
   cosineSimilarity, 
   euclideanDistance, 
@@ -25,124 +37,118 @@ import {
 } from './math-utils';
 import type { 
   WorldDefinition, 
-  SpotifyTrack, 
-  SpotifyAudioFeatures
+  SpotifyAudioFeatures,
+  FeatureCoverage,
+  GenerationManifest,
+  ManifestTrack
 } from '../src/types';
 
-interface CandidateTrack extends SpotifyTrack {
-  audioFeatures: SpotifyAudioFeatures;
+// audioFeatures is missing when Spotify has none for the track
+type FeaturedCandidate = HarvestedCandidate & { audioFeatures?: SpotifyAudioFeatures };
+
+interface CandidateTrack extends HarvestedCandidate {
+  audioFeatures?: SpotifyAudioFeatures;
   genres: string[];
   score: number;
   semanticScore: number;
   spotifyScore: number;
   noveltyBonus: number;
   diversityBonus: number;
+  biasedScore?: number; // Score within an intersection, after its bias
 }
 
 /**
  * Main playlist generation handler
  */
-export const handler: Handler = async (event) => {
-  if (event.httpMethod !== 'POST') {
-    return { statusCode: 405, body: 'Method Not Allowed' };
-  }
-
-  try {
-    // Verify auth
-    const session = await getUserFromRequest(event);
-    if (!session || !session.accessToken) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized - missing access token' })
-      };
-    }
+export const handler = createHandler('generate-playlists', {
+  POST: route({
+    errorMessage: 'Failed to start playlist generation',
+    handle: async ({ session }) => {
+      // Load world definition
+      const world = await getWorldBlob(session.spotifyId);
+      if (!world) {
+        throw new HttpError(404, 'world_not_found', 'No world found. Build a world first.');
+      }
 
-    // Load world definition
-    const world = await getWorldBlob(session.spotifyId);
-    if (!world) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ error: 'No world found. Build a world first.' })
-      };
-    }
+      const { id: jobId } = await createJob(session.spotifyId, 'generate-playlists');
 
-    const jobId = `playlists-${session.spotifyId}-${Date.now()}`;
-    
-    await setUserKV(`job:${jobId}`, {
-      status: 'generating',
-      startedAt: Date.now(),
-      progress: 0
-    });
-
-    // Generate playlists asynchronously
-    generatePlaylistsAsync(session.spotifyId, world, jobId)
-      .catch(error => {
-        console.error('Playlist generation failed:', error);
-        setUserKV(`job:${jobId}`, {
-          status: 'failed',
-          error: error.message,
-          failedAt: Date.now()
+      // Generate playlists asynchronously
+      generatePlaylistsAsync(session.spotifyId, world, jobId)
+        .catch(error => {
+          if (!(error instanceof JobCancelledError)) {
+            console.error('Playlist generation failed:', error);
+          }
+          return failJob(session.spotifyId, jobId, error);
         });
-      });
 
-    return {
-      statusCode: 202,
-      body: JSON.stringify({
+      return json({
         jobId,
         message: 'Playlist generation started',
         pollUrl: `/api/world-status?jobId=${jobId}`
-      })
-    };
-
-  } catch (error) {
-    console.error('Generate playlists error:', error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: 'Failed to start playlist generation' })
-    };
-  }
-};
+      }, 202);
+    },
+  }),
+});
 
 /**
  * Async playlist generation workflow
+ *
+ * With onlyIntersection, just that intersection's playlist is rebuilt (see
+ * regenerate-one.ts); the others are left as they are.
  */
-async function generatePlaylistsAsync(
+export async function generatePlaylistsAsync(
   userId: string,
   world: WorldDefinition,
-  jobId: string
+  jobId: string,
+  onlyIntersection?: string
 ): Promise<void> {
   
   console.log(`[${jobId}] Starting playlist generation for ${world.name}`);
 
-  // Step 1: Harvest candidates from Spotify
-  await updateProgress(jobId, 10, 'Harvesting candidates...');
-  const candidates = await harvestCandidates(userId, world);
-  console.log(`[${jobId}] Harvested ${candidates.length} candidates`);
+  // Step 1: Harvest candidates from every source
+  await advanceJob(userId, jobId, 10, 'Harvesting candidates...');
+  const user = await getUser(userId);
+  const { candidates, report: sourceReport } = await harvestFromSources({
+    spotifyId: userId,
+    world,
+    market: user?.country
+  });
+  console.log(`[${jobId}] Harvested ${candidates.length} candidates`, sourceReport);
+
+  if (candidates.length === 0) {
+    throw new Error('No candidate tracks found - every candidate source came back empty');
+  }
 
   // Step 2: Filter blocklist (tracks user has already)
-  await updateProgress(jobId, 20, 'Filtering blocklist...');
-  const filtered = await filterBlocklist(candidates, world);
-  console.log(`[${jobId}] After filtering: ${filtered.length} candidates`);
+  await advanceJob(userId, jobId, 20, 'Filtering blocklist...');
+  const playable = candidates.filter(isTrackPlayable);
+  const filtered = await filterBlocklist(playable, world);
+  console.log(
+    `[${jobId}] After filtering: ${filtered.length} candidates ` +
+    `(${candidates.length - playable.length} unplayable in ${user?.country || 'unknown market'})`
+  );
 
   // Step 3: Batch fetch audio features
-  await updateProgress(jobId, 30, 'Analyzing audio features...');
-  const withFeatures = await enrichWithAudioFeatures(userId, filtered);
+  await advanceJob(userId, jobId, 30, 'Analyzing audio features...');
+  const { tracks: withFeatures, coverage: featureCoverage } =
+    await enrichWithAudioFeatures(userId, filtered);
+  console.log(`[${jobId}] Audio features for ${featureCoverage.withFeatures}/${featureCoverage.total} candidates`);
 
   // Step 4: Coarse filter with Spotify features
-  await updateProgress(jobId, 40, 'Applying audio constraints...');
+  await advanceJob(userId, jobId, 40, 'Applying audio constraints...');
   const coarseFiltered = applyCoarseFilters(withFeatures, world);
   console.log(`[${jobId}] After coarse filter: ${coarseFiltered.length} candidates`);
 
   // Step 5: Enrich with genres
-  await updateProgress(jobId, 50, 'Fetching artist genres...');
+  await advanceJob(userId, jobId, 50, 'Fetching artist genres...');
   const enriched = await enrichWithGenres(userId, coarseFiltered);
 
   // Step 6: Generate text embeddings for semantic scoring
-  await updateProgress(jobId, 60, 'Computing semantic scores...');
+  await advanceJob(userId, jobId, 60, 'Computing semantic scores...');
   const scored = await scoreWithEmbeddings(enriched, world);
 
   // Step 7: Apply novelty and diversity bonuses
-  await updateProgress(jobId, 70, 'Applying bonuses...');
+  await advanceJob(userId, jobId, 70, 'Applying bonuses...');
   const finalScored = applyBonuses(scored, world);
 
   // Step 8: Sort by final score
@@ -150,124 +156,93 @@ async function generatePlaylistsAsync(
   console.log(`[${jobId}] Top score: ${finalScored[0]?.score.toFixed(3)}`);
 
   // Step 9: Bucket into intersections
-  await updateProgress(jobId, 80, 'Creating intersection playlists...');
-  const playlists = bucketIntoIntersections(finalScored, world);
+  await advanceJob(userId, jobId, 80, 'Creating intersection playlists...');
+  const playlists = bucketIntoIntersections(finalScored, world)
+    .filter(playlist => !onlyIntersection || playlist.name === onlyIntersection);
+  if (playlists.length === 0) {
+    throw new Error(`No intersection named "${onlyIntersection}" in this world`);
+  }
 
   // Step 10: Create Spotify playlists
-  await updateProgress(jobId, 90, 'Creating Spotify playlists...');
-  await createSpotifyPlaylists(userId, world, playlists);
+  await advanceJob(userId, jobId, 90, 'Creating Spotify playlists...');
+  const mappings = await createSpotifyPlaylists(userId, world, playlists);
+
+  // Step 11: Record what this run produced
+  const manifest: GenerationManifest = {
+    userId,
+    jobId,
+    timestamp: Date.now(),
+    worldName: world.worldName,
+    worldVersion: world.version,
+    playlists: playlists.map(playlist => ({
+      intersectionName: playlist.name,
+      playlistId: mappings[playlist.name]?.id || '',
+      playlistUrl: mappings[playlist.name]?.url || '',
+      tracks: playlist.tracks.map(toManifestTrack)
+    })),
+    candidates: {
+      total: candidates.length,
+      playable: playable.length,
+      filtered: filtered.length,
+      coarseFiltered: coarseFiltered.length,
+      selected: playlists.reduce((sum, p) => sum + p.tracks.length, 0)
+    },
+    candidateSources: sourceReport,
+    featureCoverage: {
+      total: featureCoverage.total,
+      withFeatures: featureCoverage.withFeatures,
+      ratio: featureCoverage.ratio
+    }
+  };
+  try {
+    await putManifestBlob(userId, manifest);
+  } catch (error) {
+    // The playlists exist either way - don't fail the run over its record
+    console.error(`[${jobId}] Failed to save manifest:`, error);
+  }
 
-  // Step 11: Mark complete
-  await updateProgress(jobId, 100, 'Complete!');
-  await setUserKV(`job:${jobId}`, {
-    status: 'complete',
+  // Step 12: Mark complete
+  await completeJob(userId, jobId, {
+    playlistName: onlyIntersection,
     playlistCount: playlists.length,
-    completedAt: Date.now()
+    candidateSources: sourceReport,
+    featureCoverage: manifest.featureCoverage,
+    runTimestamp: manifest.timestamp
   });
 
   console.log(`[${jobId}] Playlist generation complete`);
+  console.log(`[${jobId}] Catalog cache:`, JSON.stringify(getCatalogCacheStats()));
 }
 
 /**
- * Harvest candidates from Spotify Recommendations API
- */
-async function harvestCandidates(
-  spotifyId: string,
-  world: WorldDefinition
-): Promise<SpotifyTrack[]> {
-  
-  const candidates: SpotifyTrack[] = [];
-  const seenIds = new Set<string>();
-
-  // Strategy: Make 5-10 calls with different seed combinations
-  const seedTrackIds = world.seedTrackIds || [];
-  if (seedTrackIds.length === 0) {
-    console.warn('No seed tracks in world definition');
-    return [];
-  }
-  
-  const limitedSeeds = seedTrackIds.slice(0, 50); // Use top 50 seeds
-
-  // Call 1: Use first 5 seed tracks
-  const call1 = await getRecommendations({
-    seed_tracks: limitedSeeds.slice(0, 5),
-    limit: 100
-  }, spotifyId);
-  addUnique(candidates, call1, seenIds);
-
-  // Call 2: Use next 5 seed tracks with target parameters
-  const avgFeatures = computeAverageFeatures(world);
-  const call2 = await getRecommendations({
-    seed_tracks: limitedSeeds.slice(5, 10),
-    target_acousticness: avgFeatures.acousticness || 0.5,
-    target_valence: avgFeatures.valence || 0.5,
-    target_energy: avgFeatures.energy || 0.5,
-    limit: 100
-  }, spotifyId);
-  addUnique(candidates, call2, seenIds);
-
-  // Call 3: Use middle seeds with tempo/instrumentalness
-  const call3 = await getRecommendations({
-    seed_tracks: limitedSeeds.slice(10, 15),
-    target_tempo: avgFeatures.tempo || 120,
-    target_instrumentalness: avgFeatures.instrumentalness || 0.1,
-    limit: 100
-  }, spotifyId);
-  addUnique(candidates, call3, seenIds);
-
-  // Call 4: Biased toward low valence (darker)
-  const call4 = await getRecommendations({
-    seed_tracks: limitedSeeds.slice(15, 20),
-    target_valence: Math.max(0, (avgFeatures.valence || 0.5) - 0.2),
-    target_energy: Math.max(0, (avgFeatures.energy || 0.5) - 0.1),
-    limit: 100
-  }, spotifyId);
-  addUnique(candidates, call4, seenIds);
-
-  // Call 5: Biased toward high acousticness (organic)
-  const call5 = await getRecommendations({
-    seed_tracks: limitedSeeds.slice(20, 25),
-    target_acousticness: Math.min(1, (avgFeatures.acousticness || 0.5) + 0.2),
-    limit: 100
-  }, spotifyId);
-  addUnique(candidates, call5, seenIds);
-
-  // Optional: More calls for diversity
-  if (limitedSeeds.length > 30) {
-    const call6 = await getRecommendations({
-      seed_tracks: limitedSeeds.slice(25, 30),
-      target_danceability: avgFeatures.danceability || 0.5,
-      limit: 100
-    }, spotifyId);
-    addUnique(candidates, call6, seenIds);
-  }
-
-  return candidates;
-}
-
-/**
- * Add unique tracks to candidate list
+ * Slim a selected track down to what the run history needs
  */
-function addUnique(
-  candidates: SpotifyTrack[],
-  newTracks: SpotifyTrack[],
-  seenIds: Set<string>
-): void {
-  for (const track of newTracks) {
-    if (!seenIds.has(track.id)) {
-      candidates.push(track);
-      seenIds.add(track.id);
+function toManifestTrack(track: CandidateTrack): ManifestTrack {
+  return {
+    id: track.id,
+    uri: track.uri,
+    name: track.name,
+    artists: track.artists.map(a => a.name),
+    sources: track.sources,
+    hasAudioFeatures: Boolean(track.audioFeatures),
+    scores: {
+      semantic: track.semanticScore,
+      spotify: track.spotifyScore,
+      novelty: track.noveltyBonus,
+      diversity: track.diversityBonus,
+      final: track.score,
+      intersection: track.biasedScore ?? track.score
     }
-  }
+  };
 }
 
 /**
  * Filter out tracks user already has
  */
 async function filterBlocklist(
-  candidates: SpotifyTrack[],
+  candidates: HarvestedCandidate[],
   world: WorldDefinition
-): Promise<SpotifyTrack[]> {
+): Promise<HarvestedCandidate[]> {
   
   const blocklist = new Set(world.seedTrackIds);
   
@@ -275,29 +250,32 @@ async function filterBlocklist(
 }
 
 /**
- * Enrich tracks with audio features
+ * Enrich tracks with audio features, joined by track ID
  */
 async function enrichWithAudioFeatures(
   spotifyId: string,
-  tracks: SpotifyTrack[]
-): Promise<Array<SpotifyTrack & { audioFeatures: SpotifyAudioFeatures }>> {
+  tracks: HarvestedCandidate[]
+): Promise<{ tracks: FeaturedCandidate[]; coverage: FeatureCoverage }> {
   
   const trackIds = tracks.map(t => t.id);
-  const features = await getAudioFeatures(trackIds, spotifyId);
+  const features = await getCatalogAudioFeatures(trackIds, spotifyId);
 
-  return tracks.map((track, i) => ({
-    ...track,
-    audioFeatures: features[i]
-  }));
+  return {
+    tracks: tracks.map(track => ({
+      ...track,
+      audioFeatures: features.get(track.id)
+    })),
+    coverage: summarizeFeatureCoverage(trackIds, features)
+  };
 }
 
 /**
  * Apply coarse filters based on world feature ranges
  */
 function applyCoarseFilters(
-  tracks: Array<SpotifyTrack & { audioFeatures: SpotifyAudioFeatures }>,
+  tracks: FeaturedCandidate[],
   world: WorldDefinition
-): Array<SpotifyTrack & { audioFeatures: SpotifyAudioFeatures }> {
+): FeaturedCandidate[] {
   
   const ranges = world.featureRanges;
   if (!ranges) {
@@ -307,6 +285,8 @@ function applyCoarseFilters(
 
   return tracks.filter(track => {
     const f = track.audioFeatures;
+    // Nothing to judge by - let semantic scoring decide
+    if (!f) return true;
     
     // Stay within reasonable bounds of world's range
     const valencePadding = 0.2;
@@ -330,7 +310,7 @@ function applyCoarseFilters(
  */
 async function enrichWithGenres(
   spotifyId: string,
-  tracks: Array<SpotifyTrack & { audioFeatures: SpotifyAudioFeatures }>
+  tracks: FeaturedCandidate[]
 ): Promise<CandidateTrack[]> {
   
   // Extract unique artist IDs
@@ -339,7 +319,7 @@ async function enrichWithGenres(
   )];
 
   // Fetch artist data in batches
-  const artists = await getArtists(artistIds, spotifyId);
+  const artists = await getCatalogArtists(artistIds, spotifyId);
   const artistGenres = new Map(artists.map(a => [a.id, a.genres]));
 
   // Enrich tracks
@@ -369,8 +349,8 @@ async function scoreWithEmbeddings(
   // Create descriptions
   const descriptions = tracks.map(track =>
     `${track.artists[0].name} - ${track.name}. ` +
-    `Genres: ${track.genres.join(', ')}. ` +
-    `Style: ${inferStyle(track.audioFeatures)}`
+    `Genres: ${track.genres.join(', ')}.` +
+    (track.audioFeatures ? ` Style: ${inferStyle(track.audioFeatures)}` : '')
   );
 
   // Generate embeddings
@@ -383,9 +363,10 @@ async function scoreWithEmbeddings(
       world.semanticCentroid
     );
 
-    // Score by Spotify feature distance
-    const trackVector = audioFeaturesToVector(track.audioFeatures);
-    const spotifyScore = 1 - euclideanDistance(trackVector, world.tasteCentroid);
+    // Score by Spotify feature distance (semantic only without features)
+    const spotifyScore = track.audioFeatures
+      ? 1 - euclideanDistance(audioFeaturesToVector(track.audioFeatures), world.tasteCentroid)
+      : 0;
 
     return {
       ...track,
@@ -425,10 +406,12 @@ function applyBonuses(
       : 1000;
     const diversityBonus = avgGenreCount < 10 ? 0.1 : avgGenreCount < 30 ? 0.05 : 0;
 
-    // Combined score
+    // Combined score - without features the semantic score carries
+    // the feature weight too
     const score = (
-      0.4 * track.semanticScore +
-      0.3 * track.spotifyScore +
+      (track.audioFeatures
+        ? 0.4 * track.semanticScore + 0.3 * track.spotifyScore
+        : 0.7 * track.semanticScore) +
       0.2 * noveltyBonus +
       0.1 * diversityBonus
     );
@@ -458,20 +441,21 @@ function bucketIntoIntersections(
     // Apply intersection-specific bias to scores
     const biasedTracks = tracks.map(track => {
       let biasedScore = track.score;
+      const f = track.audioFeatures;
 
-      // Apply feature biases
-      if (intersection.bias.valence !== undefined) {
-        const valenceDiff = Math.abs(track.audioFeatures.valence - intersection.bias.valence);
+      // Apply feature biases (tracks without features keep their base score)
+      if (f && intersection.bias.valence !== undefined) {
+        const valenceDiff = Math.abs(f.valence - intersection.bias.valence);
         biasedScore += (1 - valenceDiff) * 0.1;
       }
 
-      if (intersection.bias.energy !== undefined) {
-        const energyDiff = Math.abs(track.audioFeatures.energy - intersection.bias.energy);
+      if (f && intersection.bias.energy !== undefined) {
+        const energyDiff = Math.abs(f.energy - intersection.bias.energy);
         biasedScore += (1 - energyDiff) * 0.1;
       }
 
-      if (intersection.bias.tempo !== undefined) {
-        const tempoDiff = Math.abs(track.audioFeatures.tempo - intersection.bias.tempo) / 100;
+      if (f && intersection.bias.tempo !== undefined) {
+        const tempoDiff = Math.abs(f.tempo - intersection.bias.tempo) / 100;
         biasedScore += Math.max(0, 1 - tempoDiff) * 0.1;
       }
 
@@ -537,89 +521,72 @@ async function createSpotifyPlaylists(
   spotifyId: string,
   world: WorldDefinition,
   playlists: Array<{ name: string; description: string; tracks: CandidateTrack[] }>
-): Promise<void> {
+): Promise<WorldDefinition['playlists']> {
   
+  const mappings = { ...(world.playlists || {}) };
+
   for (const playlist of playlists) {
     try {
-      // Create playlist
-      const created = await createPlaylist(
-        spotifyId,
-        `${world.name}: ${playlist.name}`,
-        playlist.description,
-        false
-      );
-
-      // Add tracks
       const trackUris = playlist.tracks.map(t => t.uri);
-      await replacePlaylistTracks(created.id, trackUris, spotifyId);
+      let playlistId: string | undefined = mappings[playlist.name]?.id;
+
+      // Update the existing playlist in place so added-at dates survive
+      if (playlistId) {
+        try {
+          const result = await syncPlaylist(playlistId, trackUris, spotifyId);
+          console.log(
+            `Synced playlist ${playlist.name}: +${result.added} -${result.removed} ~${result.moved}`
+          );
+        } catch (error) {
+          // Deleted in the Spotify app - fall through and create a new one
+          if (!isSpotifyApiError(error) || error.reason !== 'not_found') throw error;
+          console.log(`Playlist ${playlist.name} no longer exists, recreating`);
+          playlistId = undefined;
+        }
+      }
 
-      // Generate simple cover art (SVG → PNG)
-      const coverArt = generateSimpleCoverArt(playlist.name);
-      await uploadPlaylistCover(created.id, coverArt, spotifyId);
+      if (!playlistId) {
+        const created = await createPlaylist(
+          spotifyId,
+          `${world.name}: ${playlist.name}`,
+          playlist.description,
+          false
+        );
+        playlistId = created.id;
+        mappings[playlist.name] = {
+          id: created.id,
+          url: `https://open.spotify.com/playlist/${created.id}`
+        };
+
+        await syncPlaylist(created.id, trackUris, spotifyId);
+        console.log(`Created playlist: ${created.name} (${playlist.tracks.length} tracks)`);
+      }
 
-      console.log(`Created playlist: ${created.name} (${playlist.tracks.length} tracks)`);
+      // Re-render every run so the cover follows the world's mood
+      const coverArt = renderCoverArt(world, playlist.name);
+      await uploadPlaylistCover(playlistId, coverArt, spotifyId);
     } catch (error) {
+      // Auth problems will fail every playlist - stop and report them
+      if (
+        isSpotifyApiError(error) &&
+        ['token_revoked', 'unauthorized', 'insufficient_scope'].includes(error.reason)
+      ) {
+        throw error;
+      }
       console.error(`Failed to create playlist ${playlist.name}:`, error);
     }
   }
-}
 
-/**
- * Generate simple SVG cover art
- */
-function generateSimpleCoverArt(playlistName: string): string {
-  // Simple gradient with text
-  const colors = [
-    ['#1a1a1a', '#4a4a4a'],
-    ['#2d1b2e', '#5a3a5a'],
-    ['#1b2d2e', '#3a5a5a'],
-    ['#2d2d1b', '#5a5a3a']
-  ];
-  
-  const [color1, color2] = colors[Math.floor(Math.random() * colors.length)];
-
-  return `<svg width="300" height="300" xmlns="http://www.w3.org/2000/svg">
-    <defs>
-      <linearGradient id="grad" x1="0%" y1="0%" x2="100%" y2="100%">
-        <stop offset="0%" style="stop-color:${color1};stop-opacity:1" />
-        <stop offset="100%" style="stop-color:${color2};stop-opacity:1" />
-      </linearGradient>
-    </defs>
-    <rect width="300" height="300" fill="url(#grad)"/>
-    <text x="150" y="160" text-anchor="middle" fill="white" font-size="20" font-weight="bold" font-family="Arial, sans-serif">
-      ${playlistName}
-    </text>
-  </svg>`;
-}
-
-/**
- * Compute average features from world centroid
- */
-function computeAverageFeatures(world: WorldDefinition): Partial<SpotifyAudioFeatures> {
-  // Use the taste centroid (already computed)
-  const centroid = world.tasteCentroid;
-  
-  return {
-    acousticness: centroid[0],
-    danceability: centroid[1],
-    energy: centroid[2],
-    instrumentalness: centroid[3],
-    liveness: centroid[4],
-    loudness: centroid[5],
-    speechiness: centroid[6],
-    valence: centroid[7],
-    tempo: centroid[8]
-  };
+  // Remember which Spotify playlist belongs to each intersection. Re-read the
+  // active world first - a rebuild or restore during a long run must not be
+  // overwritten with the world this run started from
+  const current = await getWorldBlob(spotifyId);
+  if (current) {
+    await updateActiveWorldBlob(spotifyId, {
+      ...current,
+      playlists: { ...(current.playlists || {}), ...mappings }
+    });
+  }
+  return mappings;
 }
 
-/**
- * Update job progress
- */
-async function updateProgress(jobId: string, progress: number, status: string): Promise<void> {
-  await setUserKV(`job:${jobId}`, {
-    status: 'generating',
-    progress,
-    currentStep: status,
-    updatedAt: Date.now()
-  });
-}
@@ -0,0 +1,410 @@
+/**
+ * Handler middleware - method routing, auth, zod validation, CORS, request
+ * IDs and one JSON error envelope for every function
+ *
+ * Routes throw instead of building error bodies. Whatever they throw goes
+ * out as `{ error, code, requestId, ...details }`:
+ *   HttpError         its own status, code and details
+ *   SpotifyApiError   an actionable message (see spotify-errors.ts), the
+ *                     reason as code, and a consent URL for missing scopes
+ *   anything else     500 internal_error with the route's errorMessage
+ *
+ * Cross-origin callers must be listed in CORS_ALLOWED_ORIGINS.
+ */
+import { randomUUID } from 'crypto';
+import type {
+  Handler,
+  HandlerEvent,
+  HandlerResponse,
+} from '@netlify/functions';
+import type { z } from 'zod';
+import { getSession } from './auth-helpers';
+import { describeSpotifyError, isSpotifyApiError } from './spotify-errors';
+import { getConsentUrl } from './scopes';
+
+export type Method = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+const METHODS: Method[] = ['GET', 'POST', 'PATCH', 'DELETE'];
+
+// Inbound request IDs are echoed back and logged, so only accept safe ones
+const REQUEST_ID_PATTERN = /^[\w-]{1,128}$/;
+
+const PREFLIGHT_MAX_AGE_SECONDS = 10 * 60;
+
+export type Session = NonNullable<Awaited<ReturnType<typeof getSession>>>;
+
+type RawQuery = Record<string, string | undefined>;
+
+/**
+ * An error to answer with as-is: status, machine-readable code, message,
+ * and any extra fields for the envelope
+ */
+export class HttpError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+  readonly details: Record<string, unknown>;
+
+  constructor(
+    statusCode: number,
+    code: string,
+    message: string,
+    details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  cookies?: string[]; // Set-Cookie values
+  body: string;
+  data?: unknown; // What json() serialized, for response validation
+}
+
+interface ResponseOptions {
+  headers?: Record<string, string>;
+  cookies?: string[];
+}
+
+/**
+ * JSON response
+ */
+export function json(
+  data: unknown,
+  statusCode = 200,
+  { headers = {}, cookies }: ResponseOptions = {}
+): HttpResponse {
+  return {
+    statusCode,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    cookies,
+    body: JSON.stringify(data),
+    data,
+  };
+}
+
+/**
+ * Uncached 302 redirect
+ */
+export function redirect(
+  location: string,
+  { headers = {}, cookies }: ResponseOptions = {}
+): HttpResponse {
+  return {
+    statusCode: 302,
+    headers: { Location: location, 'Cache-Control': 'no-cache', ...headers },
+    cookies,
+    body: '',
+  };
+}
+
+export interface RouteContext<TBody, TQuery, TSession> {
+  event: HandlerEvent;
+  requestId: string;
+  body: TBody;
+  query: TQuery;
+  session: TSession;
+}
+
+export interface Route<
+  B extends z.ZodTypeAny,
+  Q extends z.ZodTypeAny,
+  S extends Session | null,
+> {
+  auth?: boolean; // Defaults to true: 401 without a live session
+  body?: B; // JSON body schema; without one the body is ignored
+  query?: Q; // Query string schema; without one the raw parameters
+  response?: z.ZodTypeAny; // Checked against successful json() responses
+  errorMessage?: string; // What unexpected errors tell the caller
+  handle(
+    context: RouteContext<z.infer<B>, z.infer<Q>, S>
+  ): Promise<HttpResponse>;
+}
+
+type AnyRoute = Route<z.ZodTypeAny, z.ZodTypeAny, Session | null>;
+
+/**
+ * Declare a route; only here so the schemas type the handler's context
+ */
+export function route<
+  B extends z.ZodTypeAny = z.ZodUndefined,
+  Q extends z.ZodTypeAny = z.ZodType<RawQuery>,
+>(config: Route<B, Q, null> & { auth: false }): Route<B, Q, null>;
+export function route<
+  B extends z.ZodTypeAny = z.ZodUndefined,
+  Q extends z.ZodTypeAny = z.ZodType<RawQuery>,
+>(config: Route<B, Q, Session> & { auth?: true }): Route<B, Q, Session>;
+export function route(config: AnyRoute): AnyRoute {
+  return config;
+}
+
+/**
+ * The signed-in user's session; throws a 401 without one
+ */
+export async function requireAuth(event: HandlerEvent): Promise<Session> {
+  const session = await getSession(event);
+  if (!session) {
+    throw new HttpError(401, 'unauthorized', 'Unauthorized');
+  }
+  return session;
+}
+
+/**
+ * Build a function handler from one route per method
+ *
+ * OPTIONS (CORS preflight) is answered for every handler; other methods
+ * without a route get a 405.
+ */
+export function createHandler(
+  name: string,
+  routes: Partial<Record<Method, AnyRoute>>
+): Handler {
+  const allow = [...METHODS.filter((method) => routes[method]), 'OPTIONS'].join(
+    ', '
+  );
+
+  return async (event: HandlerEvent) => {
+    const requestId = getRequestId(event);
+    const cors = getCorsHeaders(event);
+    const method = event.httpMethod.toUpperCase();
+    const current = routes[method as Method];
+
+    let response: HttpResponse;
+    try {
+      if (method === 'OPTIONS') {
+        response = preflight(event, cors, allow);
+      } else if (!current) {
+        response = toErrorResponse(
+          new HttpError(405, 'method_not_allowed', 'Method not allowed'),
+          requestId
+        );
+        response.headers = { ...response.headers, Allow: allow };
+      } else {
+        response = await runRoute(current, event, requestId);
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        console.error(`[${name}] ${requestId} failed:`, error);
+      }
+      response = toErrorResponse(error, requestId, current?.errorMessage);
+    }
+
+    return toHandlerResponse(response, {
+      'X-Request-Id': requestId,
+      ...cors,
+    });
+  };
+}
+
+/**
+ * Authenticate, validate, run the route and check its response
+ */
+async function runRoute(
+  current: AnyRoute,
+  event: HandlerEvent,
+  requestId: string
+): Promise<HttpResponse> {
+  const session = current.auth === false ? null : await requireAuth(event);
+  const query = current.query
+    ? validate(current.query, event.queryStringParameters || {}, 'query')
+    : event.queryStringParameters || {};
+  const body = current.body
+    ? validate(current.body, parseJsonBody(event), 'body')
+    : undefined;
+
+  const response = await current.handle({
+    event,
+    requestId,
+    body,
+    query,
+    session,
+  });
+
+  if (
+    current.response &&
+    response.statusCode < 300 &&
+    response.data !== undefined
+  ) {
+    const parsed = current.response.safeParse(response.data);
+    if (!parsed.success) {
+      throw new Error(
+        `Response failed validation: ${formatIssues(parsed.error)}`
+      );
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Parse with a request schema; throws a 400 listing what's wrong
+ */
+function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  value: unknown,
+  part: 'body' | 'query'
+): z.infer<T> {
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new HttpError(400, 'invalid_request', `Invalid request ${part}`, {
+      issues: parsed.error.issues.map(
+        (issue) => `${issue.path.join('.') || part}: ${issue.message}`
+      ),
+    });
+  }
+  return parsed.data;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * The request body as JSON; undefined when empty
+ */
+function parseJsonBody(event: HandlerEvent): unknown {
+  if (!event.body) return undefined;
+  const text = event.isBase64Encoded
+    ? Buffer.from(event.body, 'base64').toString('utf8')
+    : event.body;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * The caller's request ID if it sent a usable one, otherwise Netlify's or a
+ * fresh one
+ */
+function getRequestId(event: HandlerEvent): string {
+  const given =
+    event.headers['x-request-id'] || event.headers['x-nf-request-id'];
+  return given && REQUEST_ID_PATTERN.test(given) ? given : randomUUID();
+}
+
+/**
+ * The site's own URLs plus CORS_ALLOWED_ORIGINS (comma-separated)
+ */
+function getAllowedOrigins(): Set<string> {
+  return new Set(
+    [
+      process.env.URL,
+      process.env.DEPLOY_PRIME_URL,
+      ...(process.env.CORS_ALLOWED_ORIGINS || '').split(','),
+    ]
+      .map((origin) => origin?.trim().replace(/\/$/, ''))
+      .filter((origin): origin is string => !!origin)
+  );
+}
+
+/**
+ * CORS headers for an allowed Origin; credentials are allowed, so the
+ * origin is echoed back only when listed
+ */
+function getCorsHeaders(event: HandlerEvent): Record<string, string> {
+  const origin = event.headers.origin;
+  if (!origin || !getAllowedOrigins().has(origin)) {
+    return { Vary: 'Origin' };
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': 'X-Request-Id',
+    Vary: 'Origin',
+  };
+}
+
+/**
+ * Answer a CORS preflight; origins not on the allowlist get a 403
+ */
+function preflight(
+  event: HandlerEvent,
+  cors: Record<string, string>,
+  allow: string
+): HttpResponse {
+  if (event.headers.origin && !cors['Access-Control-Allow-Origin']) {
+    throw new HttpError(403, 'origin_not_allowed', 'Origin not allowed');
+  }
+  return {
+    statusCode: 204,
+    headers: {
+      Allow: allow,
+      'Access-Control-Allow-Methods': allow,
+      'Access-Control-Allow-Headers': 'Content-Type, X-Request-Id',
+      'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE_SECONDS),
+    },
+    body: '',
+  };
+}
+
+/**
+ * The error envelope for anything a route threw
+ */
+function toErrorResponse(
+  error: unknown,
+  requestId: string,
+  fallbackMessage = 'Something went wrong'
+): HttpResponse {
+  if (error instanceof HttpError) {
+    return json(
+      {
+        error: error.message,
+        code: error.code,
+        requestId,
+        ...error.details,
+      },
+      error.statusCode
+    );
+  }
+
+  if (isSpotifyApiError(error)) {
+    const { statusCode, message, reason } = describeSpotifyError(
+      error,
+      fallbackMessage
+    );
+    const { missingScopes } = error;
+    return json(
+      {
+        error: message,
+        code: reason,
+        requestId,
+        ...(missingScopes?.length
+          ? { missingScopes, consentUrl: getConsentUrl(missingScopes) }
+          : {}),
+      },
+      statusCode
+    );
+  }
+
+  return json(
+    { error: fallbackMessage, code: 'internal_error', requestId },
+    500
+  );
+}
+
+/**
+ * Netlify's response shape; cookies go in multiValueHeaders since a
+ * response can set more than one
+ */
+function toHandlerResponse(
+  response: HttpResponse,
+  headers: Record<string, string>
+): HandlerResponse {
+  return {
+    statusCode: response.statusCode,
+    headers: { ...headers, ...response.headers },
+    ...(response.cookies?.length
+      ? { multiValueHeaders: { 'Set-Cookie': response.cookies } }
+      : {}),
+    body: response.body,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Job lifecycle - create, advance, finish, cancel and expire background jobs
+ *
+ * Pipelines call advanceJob between steps; that is where a requested
+ * cancellation takes effect (by throwing JobCancelledError).
+ */
+import {
+  deleteJob,
+  getJob,
+  isJobCancelRequested,
+  listJobs,
+  saveJob,
+  setJobCancelRequested,
+} from './repository';
+import { JOB_RETENTION_MS } from './schemas';
+import { describeSpotifyError } from './spotify-errors';
+import type { Job, JobKind, JobResult, JobStep } from '../src/types';
+
+// Job IDs keep the `{prefix}-{spotifyId}-{timestamp}` shape used before
+const JOB_ID_PREFIXES: Record<JobKind, string> = {
+  'build-world': 'world',
+  'generate-playlists': 'playlists',
+  'regenerate-playlist': 'regen',
+};
+
+const FINISHED_STATUSES: Job['status'][] = ['complete', 'failed', 'cancelled'];
+
+/**
+ * Thrown from advanceJob when the user cancelled the job
+ */
+export class JobCancelledError extends Error {
+  constructor(readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export function isJobFinished(job: Job): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+function closeSteps(steps: JobStep[], now: number): JobStep[] {
+  return steps.map((step) =>
+    step.completedAt ? step : { ...step, completedAt: now }
+  );
+}
+
+async function requireJob(ownerId: string, jobId: string): Promise<Job> {
+  const job = await getJob(ownerId, jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+  return job;
+}
+
+/**
+ * Get one of the user's jobs; expired jobs read as missing
+ */
+export async function readJob(
+  ownerId: string,
+  jobId: string
+): Promise<Job | null> {
+  const job = await getJob(ownerId, jobId);
+  return job && job.expiresAt > Date.now() ? job : null;
+}
+
+/**
+ * Create a queued job
+ */
+export async function createJob(
+  ownerId: string,
+  kind: JobKind,
+  result?: JobResult
+): Promise<Job> {
+  const now = Date.now();
+  return saveJob({
+    id: `${JOB_ID_PREFIXES[kind]}-${ownerId}-${now}`,
+    kind,
+    ownerId,
+    status: 'queued',
+    progress: 0,
+    steps: [],
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + JOB_RETENTION_MS,
+    result,
+  });
+}
+
+/**
+ * Start the next step, unless the job has been cancelled
+ */
+export async function advanceJob(
+  ownerId: string,
+  jobId: string,
+  progress: number,
+  step: string
+): Promise<void> {
+  if (await isJobCancelRequested(ownerId, jobId)) {
+    throw new JobCancelledError(jobId);
+  }
+
+  const job = await requireJob(ownerId, jobId);
+  const now = Date.now();
+  await saveJob({
+    ...job,
+    status: 'running',
+    progress,
+    currentStep: step,
+    steps: [...closeSteps(job.steps, now), { name: step, startedAt: now }],
+    updatedAt: now,
+    expiresAt: now + JOB_RETENTION_MS,
+  });
+}
+
+/**
+ * Mark a job complete with its result
+ */
+export async function completeJob(
+  ownerId: string,
+  jobId: string,
+  result: JobResult = {}
+): Promise<Job> {
+  const job = await requireJob(ownerId, jobId);
+  const now = Date.now();
+  return saveJob({
+    ...job,
+    status: 'complete',
+    progress: 100,
+    currentStep: undefined,
+    steps: closeSteps(job.steps, now),
+    result: { ...job.result, ...result },
+    updatedAt: now,
+    finishedAt: now,
+    expiresAt: now + JOB_RETENTION_MS,
+  });
+}
+
+/**
+ * Record why a job stopped - cancelled, or failed with the given error
+ */
+export async function failJob(
+  ownerId: string,
+  jobId: string,
+  error: unknown
+): Promise<Job | null> {
+  const job = await getJob(ownerId, jobId);
+  if (!job) return null;
+
+  const now = Date.now();
+  const stopped = {
+    ...job,
+    currentStep: undefined,
+    steps: closeSteps(job.steps, now),
+    updatedAt: now,
+    finishedAt: now,
+    expiresAt: now + JOB_RETENTION_MS,
+  };
+
+  if (error instanceof JobCancelledError) {
+    return saveJob({ ...stopped, status: 'cancelled' });
+  }
+
+  const fallback = error instanceof Error ? error.message : 'Job failed';
+  const { message, reason } = describeSpotifyError(error, fallback);
+  return saveJob({ ...stopped, status: 'failed', error: message, reason });
+}
+
+/**
+ * Ask a running job to stop; queued jobs are cancelled straight away
+ *
+ * Returns null when the job doesn't exist for this owner.
+ */
+export async function cancelJob(
+  ownerId: string,
+  jobId: string
+): Promise<Job | null> {
+  const job = await readJob(ownerId, jobId);
+  if (!job || isJobFinished(job)) return job;
+
+  await setJobCancelRequested(ownerId, jobId);
+  if (job.status === 'queued') {
+    return failJob(ownerId, jobId, new JobCancelledError(jobId));
+  }
+  return job;
+}
+
+/**
+ * A user's unexpired jobs, newest first
+ */
+export async function listRecentJobs(
+  ownerId: string,
+  limit = 20
+): Promise<Job[]> {
+  const now = Date.now();
+  const jobs = await listJobs(ownerId);
+  return jobs
+    .filter((job) => job.expiresAt > now)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit);
+}
+
+/**
+ * Delete every expired job; returns how many were removed
+ */
+export async function sweepExpiredJobs(now = Date.now()): Promise<number> {
+  const expired = (await listJobs()).filter((job) => job.expiresAt <= now);
+  for (const job of expired) {
+    await deleteJob(job.ownerId, job.id);
+  }
+  return expired.length;
+}
@@ -0,0 +1,28 @@
+/**
+ * Jobs endpoint - the current user's recent background jobs
+ *
+ * GET /api/jobs?limit=<n>   unexpired jobs, newest first (default 20)
+ */
+import { z } from 'zod';
+import { createHandler, json, route } from './http';
+import { listRecentJobs } from './job-store';
+
+const MAX_LIMIT = 100;
+
+const jobsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).default(20),
+});
+
+export const handler = createHandler('jobs', {
+  GET: route({
+    query: jobsQuerySchema,
+    errorMessage: 'Failed to list jobs',
+    handle: async ({ session, query }) => {
+      const jobs = await listRecentJobs(
+        session.spotifyId,
+        Math.min(query.limit, MAX_LIMIT)
+      );
+      return json({ jobs });
+    },
+  }),
+});
@@ -0,0 +1,36 @@
+/**
+ * Logout - revoke the current session and clear its cookie
+ *
+ * POST   always succeeds, so a stale or revoked cookie still gets cleared
+ */
+import { createHandler, json, route } from './http';
+import {
+  clearSessionCookie,
+  readSessionToken,
+  revokeLegacySessions,
+  revokeSession,
+} from './session-store';
+
+export const handler = createHandler('logout', {
+  POST: route({
+    auth: false,
+    handle: async ({ event }) => {
+      try {
+        const session = readSessionToken(event.headers.cookie);
+        if (session?.sid) {
+          await revokeSession(session.spotifyId, session.sid);
+        } else if (session) {
+          // Tokens from before the session registry can only be ended together
+          await revokeLegacySessions(session.spotifyId);
+        }
+      } catch (error) {
+        // The cookie is cleared either way
+        console.error('Logout error:', error);
+      }
+
+      return json({ success: true }, 200, {
+        cookies: [clearSessionCookie()],
+      });
+    },
+  }),
+});
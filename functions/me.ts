@@ -1,66 +1,56 @@
 /**
- * Get current user endpoint
+ * Current user endpoint
+ *
+ * GET     the signed-in user and their settings
+ * PATCH   { settings: { cadence?, continuity?, weeklyEnabled? } }
  */
-import type { Handler, HandlerEvent } from '@netlify/functions';
-import { requireAuth } from './auth-helpers';
+import { z } from 'zod';
+import { createHandler, json, route, type Session } from './http';
+import { updateUser } from './repository';
+import { userSettingsPatchSchema } from './schemas';
+import { getWorldBlob } from './storage';
+import type { UserData } from '../src/types';
 
-export const handler: Handler = async (event: HandlerEvent) => {
-  // Add CORS headers
-  const headers = {
-    'Access-Control-Allow-Origin': event.headers.origin || '*',
-    'Access-Control-Allow-Credentials': 'true',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Cookie',
+const mePatchBodySchema = z.object({
+  settings: userSettingsPatchSchema,
+});
+
+async function describeUser({ spotifyId }: Session, user: UserData) {
+  return {
+    spotifyId,
+    displayName: user.displayName,
+    email: user.email,
+    createdAt: user.createdAt,
+    lastRunAt: user.lastRunAt,
+    settings: user.settings,
+    grantedScopes: user.grantedScopes,
+    nextRunAt: user.nextRunAt,
+    hasWorld: !!(await getWorldBlob(spotifyId)),
   };
+}
 
-  // Handle OPTIONS request
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers,
-      body: '',
-    };
-  }
+export const handler = createHandler('me', {
+  GET: route({
+    errorMessage: 'Failed to fetch user data',
+    handle: async ({ session }) =>
+      json(await describeUser(session, session.user)),
+  }),
 
-  // Require authentication
-  const auth = await requireAuth(event);
-  if ('statusCode' in auth) {
-    return {
-      ...auth,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-    };
-  }
+  PATCH: route({
+    body: mePatchBodySchema,
+    errorMessage: 'Failed to update settings',
+    handle: async ({ session, body }) => {
+      const { spotifyId, user } = session;
 
-  const { user, spotifyId } = auth;
+      // Saving reschedules the user if their cadence changed
+      const updated = await updateUser(spotifyId, {
+        settings: { ...user.settings, ...body.settings },
+      });
+      if (!updated) {
+        throw new Error(`User ${spotifyId} disappeared during update`);
+      }
 
-  try {
-    return {
-      statusCode: 200,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        spotifyId,
-        displayName: user.displayName,
-        email: user.email,
-        createdAt: user.createdAt,
-        lastRunAt: user.lastRunAt,
-        settings: user.settings,
-      }),
-    };
-  } catch (error) {
-    console.error('Error fetching user:', error);
-    return {
-      statusCode: 500,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ error: 'Failed to fetch user data' }),
-    };
-  }
-};
+      return json(await describeUser(session, updated));
+    },
+  }),
+});
@@ -0,0 +1,38 @@
+/**
+ * Migrate endpoint - repair stored records (see migrations.ts)
+ *
+ * POST             run every migration
+ * POST ?dryRun=1   report what would change without writing
+ *
+ * Operator-only: requires `Authorization: Bearer <MIGRATION_SECRET>`.
+ */
+import type { HandlerEvent } from '@netlify/functions';
+import { timingSafeEqual } from 'crypto';
+import { createHandler, HttpError, json, route } from './http';
+import { runMigrations } from './migrations';
+
+function isAuthorized(event: HandlerEvent): boolean {
+  const secret = process.env.MIGRATION_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(event.headers.authorization || '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export const handler = createHandler('migrate', {
+  POST: route({
+    // Operators authenticate with the secret, not a session
+    auth: false,
+    errorMessage: 'Migration failed',
+    handle: async ({ event, query }) => {
+      if (!isAuthorized(event)) {
+        throw new HttpError(401, 'unauthorized', 'Unauthorized');
+      }
+
+      const report = await runMigrations({ dryRun: query.dryRun === '1' });
+      console.log('Migration report:', JSON.stringify(report));
+      return json(report);
+    },
+  }),
+});
@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { runMigrations } from './migrations';
+import { getUser } from './repository';
+import { DEFAULT_USER_SETTINGS, SCHEMA_VERSIONS } from './schemas';
+import { getKV, setKV } from './storage';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { decryptToken, encryptToken } from './token-crypto';
+
+const EARLIER = 1_700_000_000_000;
+const LATER = EARLIER + 24 * 60 * 60 * 1000;
+
+// What the weekly job and callback wrote before the repository
+function legacyUser(spotifyId: string, refreshToken: string, at: number) {
+  return {
+    spotifyId,
+    displayName: 'Legacy Name',
+    refreshToken,
+    lastUpdated: at,
+    tokenRefreshedAt: at,
+  };
+}
+
+function currentUser(spotifyId: string, refreshToken: string, at: number) {
+  return {
+    schemaVersion: SCHEMA_VERSIONS.user,
+    spotifyId,
+    displayName: 'Current Name',
+    email: `${spotifyId}@example.test`,
+    refreshToken: encryptToken(refreshToken, spotifyId),
+    grantedScopes: ['user-read-email'],
+    createdAt: EARLIER - 1,
+    loginHistory: [{ at, device: 'Firefox on Linux' }],
+    settings: DEFAULT_USER_SETTINGS,
+  };
+}
+
+describe('merging legacy user records', () => {
+  let run = 0;
+
+  beforeAll(() => {
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+  });
+
+  beforeEach(() => {
+    run++;
+    setStorageBackend((name) => createMemoryBackend(`${name}-${run}`));
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the tokens of a legacy copy written after the current one', async () => {
+    await setKV('user:user:someone', legacyUser('someone', 'newer', LATER));
+    await setKV('user:someone', currentUser('someone', 'older', EARLIER));
+
+    const report = await runMigrations();
+
+    expect(report.users.merged).toEqual(['someone']);
+    const user = await getUser('someone');
+    expect(decryptToken(user!.refreshToken, 'someone')).toBe('newer');
+    expect(user?.displayName).toBe('Legacy Name');
+    // Fields only the current record had survive
+    expect(user?.email).toBe('someone@example.test');
+    expect(await getKV('user:user:someone')).toBeNull();
+  });
+
+  it('keeps the current record when it was written last', async () => {
+    await setKV('someone', legacyUser('someone', 'older', EARLIER));
+    await setKV('user:someone', currentUser('someone', 'newer', LATER));
+
+    await runMigrations();
+
+    const user = await getUser('someone');
+    expect(decryptToken(user!.refreshToken, 'someone')).toBe('newer');
+    expect(user?.displayName).toBe('Current Name');
+    expect(await getKV('someone')).toBeNull();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Migration runner - repairs stored records written before the repository
+ *
+ * - Merges user records kept under the wrong key (`{id}`, `user:user:{id}`)
+ *   into `user:{id}`, which may itself only hold build-world's partial
+ *   `{hasWorld, worldId}` overwrite
+ * - Moves regenerate-one's `cooldown:{id}:{name}` keys to the lastRegen keys
+ * - Moves jobs under their owner (`job:{ownerId}:{jobId}`)
+ * - Brings users, jobs and worlds up to the current schema version (which
+ *   encrypts plaintext refresh tokens)
+ * - Re-encrypts refresh tokens still under a rotated-out key
+ * - Adds users missing from the schedule index
+ *
+ * Safe to run repeatedly; a second run finds nothing to do.
+ */
+import {
+  deleteKV,
+  getKV,
+  listKVKeys,
+  migrateWorldBlobs,
+  setKV,
+  setLastRegenTime,
+} from './storage';
+import { getSchemaVersion, parseRecord, SCHEMA_VERSIONS } from './schemas';
+import { isUserKey, jobKey, listUsers, saveUser, userKey } from './repository';
+import { computeNextRunAt, scheduleKey, SCHEDULE_PREFIX } from './schedule';
+import { getActiveKeyId, reencryptToken } from './token-crypto';
+
+export interface MigrationReport {
+  dryRun: boolean;
+  users: {
+    migrated: string[];
+    merged: string[]; // Had records under legacy keys
+    needsSignIn: string[]; // No usable record left (e.g. refresh token lost)
+  };
+  jobs: { migrated: number; dropped: string[] };
+  worlds: { migrated: string[]; invalid: string[] };
+  cooldowns: { moved: number };
+  schedule: { indexed: string[] };
+  tokens: {
+    reencrypted: string[];
+    undecryptable: string[]; // Key no longer configured; must sign in again
+  };
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const DOUBLED_USER_PREFIX = 'user:user:';
+const COOLDOWN_PREFIX = 'cooldown:';
+const JOB_PREFIX = 'job:';
+
+function isRecord(value: unknown): value is StoredRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * When a user record was last written, going by the timestamps each
+ * generation of it kept (legacy lastUpdated/tokenRefreshedAt, then the
+ * token expiry and login history)
+ */
+function lastWrittenAt(record: StoredRecord): number {
+  const logins = Array.isArray(record.loginHistory) ? record.loginHistory : [];
+  const times = [
+    record.lastUpdated,
+    record.tokenRefreshedAt,
+    record.accessTokenExpiresAt,
+    isRecord(logins[0]) ? logins[0].at : undefined,
+  ].filter((time): time is number => typeof time === 'number');
+  return times.length > 0 ? Math.max(...times) : 0;
+}
+
+/**
+ * Find which user a legacy or current user key belongs to
+ */
+async function findUserRecord(
+  key: string
+): Promise<{ spotifyId: string; legacy: boolean } | null> {
+  if (key.startsWith(DOUBLED_USER_PREFIX)) {
+    return { spotifyId: key.slice(DOUBLED_USER_PREFIX.length), legacy: true };
+  }
+  if (isUserKey(key)) {
+    return { spotifyId: key.slice('user:'.length), legacy: false };
+  }
+  // Unprefixed keys are only user records if they say so
+  if (!key.includes(':')) {
+    const record = await getKV(key);
+    if (isRecord(record) && record.spotifyId === key) {
+      return { spotifyId: key, legacy: true };
+    }
+  }
+  return null;
+}
+
+/**
+ * Run every migration; with dryRun nothing is written
+ */
+export async function runMigrations({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    dryRun,
+    users: { migrated: [], merged: [], needsSignIn: [] },
+    jobs: { migrated: 0, dropped: [] },
+    worlds: { migrated: [], invalid: [] },
+    cooldowns: { moved: 0 },
+    schedule: { indexed: [] },
+    tokens: { reencrypted: [], undecryptable: [] },
+  };
+
+  // Fail before touching anything if tokens can't be encrypted
+  const activeKeyId = getActiveKeyId();
+
+  const keys = await listKVKeys();
+
+  // Users: collect every key holding part of a user's record
+  const userSources = new Map<string, { legacy: string[]; current?: string }>();
+  for (const key of keys) {
+    const found = await findUserRecord(key);
+    if (!found) continue;
+
+    const sources = userSources.get(found.spotifyId) || { legacy: [] };
+    if (found.legacy) sources.legacy.push(key);
+    else sources.current = key;
+    userSources.set(found.spotifyId, sources);
+  }
+
+  for (const [spotifyId, sources] of userSources) {
+    const legacy: StoredRecord[] = [];
+    for (const key of sources.legacy) {
+      const record = await getKV(key);
+      if (isRecord(record)) legacy.push(record);
+    }
+    const stored = sources.current ? await getKV(sources.current) : null;
+    const current = isRecord(stored) ? stored : undefined;
+
+    // Oldest write first so the newest record's fields (and so its tokens)
+    // win; on a tie the current key wins
+    const records = [...legacy, ...(current ? [current] : [])].sort(
+      (a, b) => lastWrittenAt(a) - lastWrittenAt(b)
+    );
+    const merged = Object.assign({ spotifyId }, ...records) as StoredRecord;
+    // Migrate from the oldest copy's version so its fields (e.g. a plaintext
+    // token) are brought up to date too
+    merged.schemaVersion = Math.min(
+      SCHEMA_VERSIONS.user,
+      ...records.map(getSchemaVersion)
+    );
+
+    const needsWrite =
+      sources.legacy.length > 0 ||
+      !sources.current ||
+      getSchemaVersion(current) < SCHEMA_VERSIONS.user;
+    if (!needsWrite) continue;
+
+    let user;
+    try {
+      user = parseRecord('user', merged);
+    } catch {
+      report.users.needsSignIn.push(spotifyId);
+      continue;
+    }
+
+    if (!dryRun) {
+      await setKV(userKey(spotifyId), user);
+      for (const key of sources.legacy) await deleteKV(key);
+    }
+    report.users.migrated.push(spotifyId);
+    if (sources.legacy.length > 0) report.users.merged.push(spotifyId);
+  }
+
+  // Cooldowns: `cooldown:{id}:{name}` → the per-intersection lastRegen key
+  for (const key of keys.filter((k) => k.startsWith(COOLDOWN_PREFIX))) {
+    const rest = key.slice(COOLDOWN_PREFIX.length);
+    const separator = rest.indexOf(':');
+    const timestamp = Number(await getKV(key));
+    if (separator < 0 || !Number.isFinite(timestamp)) continue;
+
+    if (!dryRun) {
+      await setLastRegenTime(
+        rest.slice(0, separator),
+        rest.slice(separator + 1),
+        timestamp
+      );
+      await deleteKV(key);
+    }
+    report.cooldowns.moved++;
+  }
+
+  // Jobs: `job:{jobId}` → `job:{ownerId}:{jobId}`; jobs whose owner can't
+  // be recovered could never be read again, so they are dropped
+  for (const key of keys.filter((k) => k.startsWith(JOB_PREFIX))) {
+    const record = await getKV(key);
+    if (!isRecord(record)) continue;
+    if (getSchemaVersion(record) >= SCHEMA_VERSIONS.job) continue;
+
+    let job;
+    try {
+      job = parseRecord('job', {
+        id: key.slice(JOB_PREFIX.length),
+        ...record,
+      });
+    } catch {
+      if (!dryRun) await deleteKV(key);
+      report.jobs.dropped.push(key);
+      continue;
+    }
+
+    const target = jobKey(job.ownerId, job.id);
+    if (!dryRun) {
+      await setKV(target, job);
+      if (target !== key) await deleteKV(key);
+    }
+    report.jobs.migrated++;
+  }
+
+  // Worlds
+  report.worlds = await migrateWorldBlobs(dryRun);
+
+  // Refresh tokens: move everything onto the active key
+  for (const user of await listUsers()) {
+    if (user.refreshToken.keyId === activeKeyId) continue;
+
+    let refreshToken;
+    try {
+      refreshToken = reencryptToken(user.refreshToken, user.spotifyId);
+    } catch {
+      report.tokens.undecryptable.push(user.spotifyId);
+      continue;
+    }
+
+    if (!dryRun) await saveUser({ ...user, refreshToken });
+    report.tokens.reencrypted.push(user.spotifyId);
+  }
+
+  // Schedule index: users saved before it existed have no nextRunAt, and
+  // an interrupted save can leave a user without their entry
+  const indexed = new Set(await listKVKeys(SCHEDULE_PREFIX));
+  for (const user of await listUsers()) {
+    const key = scheduleKey(user);
+    if (user.nextRunAt !== computeNextRunAt(user)) {
+      if (!dryRun) await saveUser(user);
+    } else if (key && !indexed.has(key)) {
+      if (!dryRun) await setKV(key, user.nextRunAt);
+    } else {
+      continue;
+    }
+    report.schedule.indexed.push(user.spotifyId);
+  }
+
+  return report;
+}
@@ -0,0 +1,147 @@
+/**
+ * OAuth login state - PKCE and the short-lived cookie that carries the
+ * state, code verifier, requested scopes and return path from auth.ts to
+ * callback.ts
+ *
+ * The cookie is a signed JWT, so the callback can trust what it reads back.
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { parse, serialize } from 'cookie';
+
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+// Long enough to get through Spotify's consent screen
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+// Placeholder origin for checking that a return path stays on this site
+const RETURN_TO_BASE = 'https://return-to.invalid';
+
+export interface OAuthState {
+  state: string;
+  codeVerifier: string;
+  scopes: string[];
+  returnTo: string;
+}
+
+function getSecret(): string {
+  return process.env.JWT_SECRET || process.env.SESSION_SECRET!; // Support both for backward compat
+}
+
+/**
+ * Fresh state and PKCE verifier/challenge (S256)
+ */
+export function createOAuthState(
+  returnTo: string,
+  scopes: string[]
+): OAuthState & {
+  codeChallenge: string;
+} {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  return {
+    state: randomBytes(16).toString('base64url'),
+    codeVerifier,
+    codeChallenge: createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url'),
+    scopes,
+    returnTo,
+  };
+}
+
+/**
+ * Only same-site paths are allowed, so the callback can't be used as an
+ * open redirect
+ *
+ * Browsers drop tabs and newlines from URLs (`/\t/evil.com` becomes
+ * `//evil.com`), so whitespace and control characters are refused too, and
+ * what's left must resolve to our own origin.
+ */
+export function sanitizeReturnTo(value: string | undefined | null): string {
+  if (
+    !value ||
+    !value.startsWith('/') ||
+    value.startsWith('//') ||
+    value.includes('\\') ||
+    /\s/.test(value) ||
+    [...value].some((char) => char < ' ' || char === '\u007f')
+  ) {
+    return '/';
+  }
+
+  const resolved = new URL(value, RETURN_TO_BASE);
+  if (resolved.origin !== RETURN_TO_BASE) return '/';
+  return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+}
+
+/**
+ * Set-Cookie value carrying the signed state
+ */
+export function serializeOAuthStateCookie({
+  state,
+  codeVerifier,
+  scopes,
+  returnTo,
+}: OAuthState): string {
+  const token = jwt.sign(
+    { state, codeVerifier, scopes, returnTo },
+    getSecret(),
+    { expiresIn: OAUTH_STATE_TTL_SECONDS }
+  );
+  return serialize(OAUTH_STATE_COOKIE, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax', // Sent on Spotify's top-level redirect back to us
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * Set-Cookie value removing the state cookie
+ */
+export function clearOAuthStateCookie(): string {
+  return serialize(OAUTH_STATE_COOKIE, '', {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/',
+  });
+}
+
+/**
+ * Read the state cookie and check it against the state Spotify sent back;
+ * null when missing, expired, tampered with or not matching
+ */
+export function verifyOAuthState(
+  cookieHeader: string | undefined,
+  returnedState: string | undefined
+): OAuthState | null {
+  const token = parse(cookieHeader || '')[OAUTH_STATE_COOKIE];
+  if (!token || !returnedState) return null;
+
+  let stored: OAuthState;
+  try {
+    stored = jwt.verify(token, getSecret()) as OAuthState;
+  } catch {
+    return null;
+  }
+
+  const expected = Buffer.from(stored.state || '');
+  const actual = Buffer.from(returnedState);
+  if (
+    expected.length === 0 ||
+    expected.length !== actual.length ||
+    !timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  return {
+    state: stored.state,
+    codeVerifier: stored.codeVerifier,
+    scopes: stored.scopes || [],
+    returnTo: sanitizeReturnTo(stored.returnTo),
+  };
+}
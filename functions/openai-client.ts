@@ -2,37 +2,85 @@
  * OpenAI API client wrapper
  */
 import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { cacheTextEmbeddings, getCachedTextEmbeddings } from './storage';
+import type { CachedEmbedding } from '../src/types';
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+/**
+ * Content address for an embedding: the same text under another model is a
+ * different vector
+ */
+function embeddingHash(model: string, text: string): string {
+  return createHash('sha256').update(`${model}\0${text}`).digest('hex');
+}
+
 /**
  * Generate text embeddings
- * Batches automatically, max 2048 inputs per call
+ * Serves repeated texts from the embeddings store and only sends misses to
+ * OpenAI, batched at max 2048 inputs per call
  */
 export async function generateEmbeddings(
   texts: string[]
 ): Promise<number[][]> {
-  const embeddings: number[][] = [];
+  const hashes = texts.map((text) => embeddingHash(EMBEDDING_MODEL, text));
+  const cached = await getCachedTextEmbeddings([...new Set(hashes)]);
+
+  // Ignore vectors that don't match the current model
+  for (const [hash, entry] of cached) {
+    if (
+      entry.model !== EMBEDDING_MODEL ||
+      entry.embedding.length !== entry.dimensions
+    ) {
+      cached.delete(hash);
+    }
+  }
+
+  // Each distinct missing text is embedded once
+  const missing = new Map<string, string>();
+  texts.forEach((text, i) => {
+    if (!cached.has(hashes[i])) missing.set(hashes[i], text);
+  });
+  const missingHashes = [...missing.keys()];
 
   // OpenAI allows max 2048 inputs per request
   const batchSize = 2048;
+  const fetched = new Map<string, CachedEmbedding>();
 
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize);
+  for (let i = 0; i < missingHashes.length; i += batchSize) {
+    const batch = missingHashes.slice(i, i + batchSize);
 
     const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: batch,
+      model: EMBEDDING_MODEL,
+      input: batch.map((hash) => missing.get(hash)!),
       encoding_format: 'float',
     });
 
-    embeddings.push(...response.data.map((d) => d.embedding));
+    for (const d of response.data) {
+      fetched.set(batch[d.index], {
+        model: EMBEDDING_MODEL,
+        dimensions: d.embedding.length,
+        embedding: d.embedding,
+      });
+    }
+  }
+
+  if (fetched.size > 0) {
+    await cacheTextEmbeddings(fetched);
   }
+  console.log(
+    `Embeddings: ${fetched.size} of ${texts.length} texts sent to OpenAI`
+  );
 
-  return embeddings;
+  return hashes.map(
+    (hash) => (cached.get(hash) || fetched.get(hash))!.embedding
+  );
 }
 
 /**
@@ -0,0 +1,233 @@
+/**
+ * The whole pipeline offline: seeds, world build and playlist generation
+ * through their handlers, on the memory backend and the Spotify stand-in
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { handler as fetchSeeds } from './fetch-seeds';
+import { handler as buildWorld } from './build-world';
+import { handler as generatePlaylists } from './generate-playlists';
+import { handler as regenerateOne } from './regenerate-one';
+import { handler as scheduleWeekly } from './schedule-weekly';
+import { getUser, saveUser, updateUser } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import { FEATURE_SCOPES, LOGIN_SCOPES } from './scopes';
+import { createSession } from './session-store';
+import { getWorldBlob } from './storage';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { buildFixtureCatalog, createSpotifyStandIn } from './spotify-fixtures';
+import { setSpotifyTransport } from './spotify-transport';
+import { isJobFinished, readJob } from './job-store';
+import { encryptToken } from './token-crypto';
+import type { Job, OnboardingAnswers } from '../src/types';
+
+// Same text, same vector, so scores are stable between runs
+vi.mock('./openai-client', () => ({
+  generateEmbeddings: async (texts: string[]) =>
+    texts.map((text) =>
+      [...createHash('sha256').update(text).digest()]
+        .slice(0, 8)
+        .map((byte) => byte / 255 - 0.5)
+    ),
+  extractWorldDefinition: async () => ({
+    emotional_geometry: {
+      darkness_warmth: -0.2,
+      intimate_expansive: 0.4,
+      acoustic_electronic: 0.1,
+    },
+    keywords: ['night', 'rain'],
+    exclude_keywords: [],
+    world_name: 'Fixture City',
+    description: 'A world built from fixtures',
+    intersections: [
+      {
+        name: 'Night Drive',
+        description: 'Late and moving',
+        bias_description: 'higher energy, darker',
+      },
+      {
+        name: 'Slow Rain',
+        description: 'Quiet and close',
+        bias_description: 'lower energy, more acoustic',
+      },
+    ],
+  }),
+  generateCoverArt: async () => null,
+}));
+
+// The budgets are per minute and the stand-in has nothing to protect
+vi.mock('./rate-limiter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./rate-limiter')>()),
+  acquireRequestSlot: async () => {},
+}));
+
+const SPOTIFY_ID = 'fixture-user';
+const JOB_TIMEOUT_MS = 30_000;
+
+const answers: OnboardingAnswers = {
+  texture: ['warm'],
+  texture_custom: '',
+  atmosphere: ['nocturnal'],
+  atmosphere_custom: '',
+  tempo: ['mid'],
+  tempo_custom: '',
+  instrumentation: ['synths'],
+  instrumentation_custom: '',
+  avoid: [],
+  avoid_custom: '',
+};
+
+const catalog = buildFixtureCatalog(1);
+
+// The stand-in restricts every 11th track in any market
+const restrictedIds = new Set(
+  catalog.tracks.filter((_, i) => i % 11 === 10).map((t) => t.id)
+);
+
+let cookie = '';
+
+async function call(
+  handler: typeof fetchSeeds,
+  body?: unknown
+): Promise<{ statusCode: number; data: Record<string, unknown> }> {
+  const event = {
+    httpMethod: 'POST',
+    headers: { cookie },
+    queryStringParameters: {},
+    body: body === undefined ? null : JSON.stringify(body),
+    isBase64Encoded: false,
+  } as unknown as HandlerEvent;
+  const response = (await handler(event, {} as never)) as HandlerResponse;
+  return {
+    statusCode: response.statusCode,
+    data: response.body ? JSON.parse(response.body) : {},
+  };
+}
+
+async function waitForJob(jobId: string): Promise<Job> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  for (;;) {
+    const job = await readJob(SPOTIFY_ID, jobId);
+    if (job && isJobFinished(job)) return job;
+    if (Date.now() > deadline) throw new Error(`Job ${jobId} never finished`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('pipeline', () => {
+  beforeAll(async () => {
+    vi.stubEnv('JWT_SECRET', 'pipeline-test-secret-'.padEnd(40, 'x'));
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+    vi.stubEnv('SPOTIFY_CLIENT_ID', 'fixture-client');
+    vi.stubEnv('SPOTIFY_REDIRECT_URI', 'https://example.test/callback');
+    setStorageBackend(createMemoryBackend);
+    setSpotifyTransport(createSpotifyStandIn(catalog));
+
+    const now = Date.now();
+    await saveUser({
+      spotifyId: SPOTIFY_ID,
+      displayName: 'Fixture User',
+      email: 'fixture@example.test',
+      country: 'JP',
+      refreshToken: encryptToken('fixture-refresh', SPOTIFY_ID),
+      grantedScopes: [...LOGIN_SCOPES, ...Object.values(FEATURE_SCOPES).flat()],
+      createdAt: now,
+      settings: DEFAULT_USER_SETTINGS,
+    });
+    cookie = (await createSession(SPOTIFY_ID, 'vitest')).split(';')[0];
+  });
+
+  afterAll(() => {
+    setSpotifyTransport(null);
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  let seedTrackIds: string[] = [];
+
+  it('fetches seeds without unplayable tracks', async () => {
+    const { statusCode, data } = await call(fetchSeeds, { type: 'artists' });
+
+    expect(statusCode).toBe(200);
+    seedTrackIds = data.trackIds as string[];
+    expect(seedTrackIds.length).toBeGreaterThan(0);
+    expect(seedTrackIds.filter((id) => restrictedIds.has(id))).toEqual([]);
+    expect(data.trackCount).toBe(seedTrackIds.length);
+  });
+
+  it('builds a world from the seeds', async () => {
+    const { statusCode, data } = await call(buildWorld, {
+      seedTrackIds: seedTrackIds.slice(0, 50),
+      onboardingAnswers: answers,
+    });
+    expect(statusCode).toBe(202);
+
+    const job = await waitForJob(data.jobId as string);
+    expect(job.error).toBeUndefined();
+    expect(job.status).toBe('complete');
+
+    const world = await getWorldBlob(SPOTIFY_ID);
+    expect(world?.name).toBe('Fixture City');
+    expect(world?.intersections.map((i) => i.name)).toEqual([
+      'Night Drive',
+      'Slow Rain',
+    ]);
+  });
+
+  it('generates a playlist per intersection', async () => {
+    const { statusCode, data } = await call(generatePlaylists);
+    expect(statusCode).toBe(202);
+
+    const job = await waitForJob(data.jobId as string);
+    expect(job.error).toBeUndefined();
+    expect(job.status).toBe('complete');
+
+    const world = await getWorldBlob(SPOTIFY_ID);
+    expect(Object.keys(world?.playlists || {}).sort()).toEqual([
+      'Night Drive',
+      'Slow Rain',
+    ]);
+  });
+
+  it('regenerates one playlist and leaves the others alone', async () => {
+    const before = await getWorldBlob(SPOTIFY_ID);
+
+    const { statusCode, data } = await call(regenerateOne, {
+      playlistName: 'Slow Rain',
+    });
+    expect(statusCode).toBe(202);
+
+    const job = await waitForJob(data.jobId as string);
+    expect(job.error).toBeUndefined();
+    expect(job.result?.playlistName).toBe('Slow Rain');
+
+    const after = await getWorldBlob(SPOTIFY_ID);
+    expect(after?.playlists).toEqual(before?.playlists);
+  });
+
+  it('refreshes playlists for users whose cadence is due', async () => {
+    const lastWeeklyRefresh = Date.now() - 8 * 24 * 60 * 60 * 1000;
+    await updateUser(SPOTIFY_ID, { lastWeeklyRefresh });
+
+    const { statusCode, data } = await call(scheduleWeekly);
+
+    expect(statusCode).toBe(200);
+    expect(data).toMatchObject({ processed: 1, success: 1, errors: 0 });
+    const user = await getUser(SPOTIFY_ID);
+    expect(user?.lastWeeklyRefresh).toBeGreaterThan(lastWeeklyRefresh);
+    expect(user?.nextRunAt).toBeGreaterThan(Date.now());
+  });
+
+  it('refuses to regenerate a playlist the world does not have', async () => {
+    const { statusCode, data } = await call(regenerateOne, {
+      playlistName: 'Nowhere',
+    });
+
+    expect(statusCode).toBe(404);
+    expect(data.code).toBe('playlist_not_found');
+  });
+});
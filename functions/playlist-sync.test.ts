@@ -0,0 +1,247 @@
+import { randomBytes } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  planPlaylistSync,
+  syncPlaylist,
+  type PlaylistSyncPlan,
+} from './playlist-sync';
+import { saveUser } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import { FEATURE_SCOPES, LOGIN_SCOPES } from './scopes';
+import { addPlaylistItems, createPlaylist, getPlaylistItems } from './spotify';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { buildFixtureCatalog, createSpotifyStandIn } from './spotify-fixtures';
+import {
+  setSpotifyTransport,
+  type SpotifyTransport,
+} from './spotify-transport';
+import { encryptToken } from './token-crypto';
+
+/**
+ * Apply a plan the way Spotify does: removals by position against the
+ * starting snapshot, then single-track reorders, then inserts
+ */
+function applyLocally(
+  current: Array<string | null>,
+  plan: PlaylistSyncPlan
+): Array<string | null> {
+  const drop = new Set(plan.removals.map((r) => r.position));
+  const items = current.filter((_, i) => !drop.has(i));
+
+  for (const { rangeStart, insertBefore } of plan.moves) {
+    const [moved] = items.splice(rangeStart, 1);
+    items.splice(
+      insertBefore > rangeStart ? insertBefore - 1 : insertBefore,
+      0,
+      moved
+    );
+  }
+  for (const { position, uris } of plan.insertions) {
+    items.splice(position, 0, ...uris);
+  }
+  return items;
+}
+
+const uris = (...names: string[]) => names.map((n) => `spotify:track:${n}`);
+
+describe('planPlaylistSync', () => {
+  it('plans nothing when the playlist already matches', () => {
+    const tracks = uris('a', 'b', 'c');
+
+    expect(planPlaylistSync(tracks, tracks)).toEqual({
+      removals: [],
+      moves: [],
+      insertions: [],
+    });
+  });
+
+  it('fills an empty playlist in batches of at most 100', () => {
+    const desired = Array.from({ length: 250 }, (_, i) => `spotify:track:${i}`);
+    const plan = planPlaylistSync([], desired);
+
+    expect(plan.insertions.map((i) => [i.position, i.uris.length])).toEqual([
+      [0, 100],
+      [100, 100],
+      [200, 50],
+    ]);
+    expect(applyLocally([], plan)).toEqual(desired);
+  });
+
+  it('removes unwanted tracks and repeats, highest position first', () => {
+    const plan = planPlaylistSync(
+      uris('a', 'x', 'b', 'a', 'c'),
+      uris('a', 'b', 'c')
+    );
+
+    expect(plan.removals).toEqual([
+      { uri: 'spotify:track:a', position: 3 },
+      { uri: 'spotify:track:x', position: 1 },
+    ]);
+    expect(plan.moves).toEqual([]);
+    expect(plan.insertions).toEqual([]);
+  });
+
+  it('moves one track instead of everything after it', () => {
+    const current = uris('b', 'c', 'd', 'e', 'a');
+    const desired = uris('a', 'b', 'c', 'd', 'e');
+    const plan = planPlaylistSync(current, desired);
+
+    expect(plan.moves).toEqual([
+      { uri: 'spotify:track:a', rangeStart: 4, insertBefore: 0 },
+    ]);
+    expect(applyLocally(current, plan)).toEqual(desired);
+  });
+
+  it('keeps the longest run in order when reversing', () => {
+    const current = uris('a', 'b', 'c', 'd', 'e');
+    const desired = [...current].reverse();
+    const plan = planPlaylistSync(current, desired);
+
+    expect(plan.moves).toHaveLength(4);
+    expect(applyLocally(current, plan)).toEqual(desired);
+  });
+
+  it('inserts new tracks after their predecessor', () => {
+    const current = uris('a', 'c');
+    const desired = uris('a', 'b', 'c', 'd');
+    const plan = planPlaylistSync(current, desired);
+
+    expect(plan.insertions).toEqual([
+      { position: 1, uris: uris('b') },
+      { position: 3, uris: uris('d') },
+    ]);
+    expect(applyLocally(current, plan)).toEqual(desired);
+  });
+
+  it('leaves unaddressable items where they are', () => {
+    const current = ['spotify:track:b', null, 'spotify:track:a'];
+    const plan = planPlaylistSync(current, uris('a', 'b'));
+
+    expect(plan.removals).toEqual([]);
+    expect(applyLocally(current, plan)).toContain(null);
+    expect(applyLocally(current, plan).filter(Boolean)).toEqual(uris('a', 'b'));
+  });
+
+  it('ignores repeats in the desired list', () => {
+    const plan = planPlaylistSync([], uris('a', 'b', 'a'));
+
+    expect(applyLocally([], plan)).toEqual(uris('a', 'b'));
+  });
+
+  it('reaches the desired order from shuffled playlists', () => {
+    // Small deterministic PRNG so failures reproduce
+    let state = 42;
+    const random = () => {
+      state = (state * 1103515245 + 12345) % 2 ** 31;
+      return state / 2 ** 31;
+    };
+    const pool = Array.from({ length: 30 }, (_, i) => `spotify:track:${i}`);
+    const pick = () =>
+      pool.filter(() => random() < 0.6).sort(() => random() - 0.5);
+
+    for (let run = 0; run < 200; run++) {
+      const current = pick();
+      const desired = pick();
+      const plan = planPlaylistSync(current, desired);
+
+      expect(applyLocally(current, plan)).toEqual(desired);
+    }
+  });
+});
+
+describe('syncPlaylist', () => {
+  const SPOTIFY_ID = 'sync-user';
+  const catalog = buildFixtureCatalog(1);
+  const trackUris = catalog.tracks.slice(0, 8).map((t) => t.uri);
+  const standIn = createSpotifyStandIn(catalog);
+
+  // Adds a track behind the sync's back when it checks the snapshot
+  let editsLeft = 0;
+  let snapshotReads = 0;
+  const editingTransport: SpotifyTransport = async (url, init) => {
+    const { pathname, searchParams } = new URL(url);
+    if (
+      searchParams.get('fields') === 'snapshot_id' &&
+      ++snapshotReads % 2 === 0 &&
+      editsLeft > 0
+    ) {
+      editsLeft--;
+      await standIn(`https://api.spotify.com${pathname}/tracks`, {
+        method: 'POST',
+        body: JSON.stringify({ uris: [catalog.tracks[20].uri] }),
+      });
+    }
+    return standIn(url, init);
+  };
+
+  beforeAll(async () => {
+    vi.stubEnv('JWT_SECRET', 'playlist-sync-test-secret'.padEnd(40, 'x'));
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+    vi.stubEnv('SPOTIFY_CLIENT_ID', 'fixture-client');
+    setStorageBackend(createMemoryBackend);
+    setSpotifyTransport(editingTransport);
+
+    await saveUser({
+      spotifyId: SPOTIFY_ID,
+      displayName: 'Sync User',
+      email: 'sync@example.test',
+      country: 'JP',
+      refreshToken: encryptToken('fixture-refresh', SPOTIFY_ID),
+      grantedScopes: [...LOGIN_SCOPES, ...Object.values(FEATURE_SCOPES).flat()],
+      createdAt: Date.now(),
+      settings: DEFAULT_USER_SETTINGS,
+    });
+  });
+
+  afterAll(() => {
+    setSpotifyTransport(null);
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  async function playlistWith(tracks: string[]): Promise<string> {
+    const { id } = await createPlaylist(SPOTIFY_ID, 'Sync test', '');
+    await addPlaylistItems(id, tracks, 0, SPOTIFY_ID);
+    snapshotReads = 0;
+    return id;
+  }
+
+  it('applies the plan against the live playlist', async () => {
+    const id = await playlistWith(trackUris.slice(0, 5));
+    const desired = [trackUris[4], ...trackUris.slice(0, 3), trackUris[6]];
+
+    const result = await syncPlaylist(id, desired, SPOTIFY_ID);
+
+    expect(result).toMatchObject({
+      added: 1,
+      removed: 1,
+      moved: 1,
+      attempts: 1,
+    });
+    expect((await getPlaylistItems(id, SPOTIFY_ID)).uris).toEqual(desired);
+  });
+
+  it('re-plans when the playlist changes during the sync', async () => {
+    const id = await playlistWith(trackUris.slice(0, 5));
+    const desired = trackUris.slice(2, 7);
+    editsLeft = 1;
+
+    const result = await syncPlaylist(id, desired, SPOTIFY_ID);
+
+    expect(result.attempts).toBe(2);
+    expect((await getPlaylistItems(id, SPOTIFY_ID)).uris).toEqual(desired);
+  });
+
+  it('gives up when the playlist keeps changing', async () => {
+    const id = await playlistWith(trackUris.slice(0, 5));
+    editsLeft = Infinity;
+
+    await expect(
+      syncPlaylist(id, trackUris.slice(2, 7), SPOTIFY_ID)
+    ).rejects.toThrow(/kept changing/);
+    editsLeft = 0;
+  });
+});
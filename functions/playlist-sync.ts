@@ -0,0 +1,262 @@
+/**
+ * Playlist sync - bring a Spotify playlist to a desired track list in place
+ *
+ * Instead of replacing every track (which resets Spotify's added-at dates),
+ * we plan the smallest set of removals, moves and insertions and apply them
+ * against the playlist's snapshot. If the playlist changes underneath us
+ * (e.g. the user edits it in the Spotify app), we re-read it and re-plan.
+ */
+import {
+  getPlaylistItems,
+  getPlaylistSnapshotId,
+  addPlaylistItems,
+  removePlaylistItems,
+  reorderPlaylistItem,
+} from './spotify';
+
+export interface PlaylistSyncPlan {
+  // Occurrences to remove, highest position first
+  removals: Array<{ uri: string; position: number }>;
+  // Single-track moves, applied in order after removals
+  moves: Array<{ uri: string; rangeStart: number; insertBefore: number }>;
+  // Runs of new tracks, applied in order after moves
+  insertions: Array<{ position: number; uris: string[] }>;
+}
+
+export interface PlaylistSyncResult {
+  added: number;
+  removed: number;
+  moved: number;
+  attempts: number;
+  snapshotId: string;
+}
+
+// Spotify accepts at most 100 tracks per add/remove call
+const BATCH_SIZE = 100;
+const MAX_SYNC_ATTEMPTS = 3;
+
+/**
+ * Raised when the playlist snapshot no longer matches the one we planned on
+ */
+class PlaylistChangedError extends Error {
+  constructor(playlistId: string) {
+    super(`Playlist ${playlistId} changed during sync`);
+    this.name = 'PlaylistChangedError';
+  }
+}
+
+/**
+ * Indices of the longest increasing subsequence of values
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = []; // Index of the smallest tail per length
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+
+  const result = new Set<number>();
+  let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (i !== -1) {
+    result.add(i);
+    i = previous[i];
+  }
+  return result;
+}
+
+/**
+ * Plan the changes that turn current into desired
+ *
+ * Null entries in current are items we cannot address (tracks removed from
+ * Spotify); they are left where they are. Positions in each step refer to
+ * the playlist as it is after the previous steps.
+ */
+export function planPlaylistSync(
+  current: Array<string | null>,
+  desired: string[]
+): PlaylistSyncPlan {
+  const target = [...new Set(desired)];
+  const rank = new Map(target.map((uri, i) => [uri, i]));
+
+  // Removals: unwanted tracks and repeat occurrences
+  const removals: PlaylistSyncPlan['removals'] = [];
+  const seen = new Set<string>();
+  const working: Array<string | null> = [];
+
+  current.forEach((uri, position) => {
+    if (uri !== null && (!rank.has(uri) || seen.has(uri))) {
+      removals.push({ uri, position });
+      return;
+    }
+    if (uri !== null) seen.add(uri);
+    working.push(uri);
+  });
+  removals.reverse();
+
+  // Moves: keep the longest run already in order, move the rest next to
+  // their predecessor in the desired order
+  const kept = working.filter((uri): uri is string => uri !== null);
+  const stay = longestIncreasingSubsequence(
+    kept.map((uri) => rank.get(uri) ?? 0)
+  );
+  const staying = new Set(kept.filter((_, i) => stay.has(i)));
+  const keptInOrder = [...kept].sort(
+    (a, b) => (rank.get(a) ?? 0) - (rank.get(b) ?? 0)
+  );
+
+  const moves: PlaylistSyncPlan['moves'] = [];
+  keptInOrder.forEach((uri, k) => {
+    if (staying.has(uri)) return;
+
+    const rangeStart = working.indexOf(uri);
+    const insertBefore = k === 0 ? 0 : working.indexOf(keptInOrder[k - 1]) + 1;
+    if (insertBefore === rangeStart) return; // Already in place
+
+    moves.push({ uri, rangeStart, insertBefore });
+    working.splice(rangeStart, 1);
+    working.splice(
+      insertBefore > rangeStart ? insertBefore - 1 : insertBefore,
+      0,
+      uri
+    );
+  });
+
+  // Insertions: new tracks go right after their predecessor
+  const insertions: PlaylistSyncPlan['insertions'] = [];
+  target.forEach((uri, i) => {
+    if (seen.has(uri)) return;
+
+    const position = i === 0 ? 0 : working.indexOf(target[i - 1]) + 1;
+    const last = insertions[insertions.length - 1];
+    if (
+      last &&
+      last.position + last.uris.length === position &&
+      last.uris.length < BATCH_SIZE
+    ) {
+      last.uris.push(uri);
+    } else {
+      insertions.push({ position, uris: [uri] });
+    }
+    working.splice(position, 0, uri);
+  });
+
+  return { removals, moves, insertions };
+}
+
+/**
+ * Fail if someone else changed the playlist since our last write
+ */
+async function assertSnapshot(
+  playlistId: string,
+  expected: string,
+  spotifyId: string
+): Promise<void> {
+  const actual = await getPlaylistSnapshotId(playlistId, spotifyId);
+  if (actual !== expected) {
+    throw new PlaylistChangedError(playlistId);
+  }
+}
+
+/**
+ * Apply a plan, checking the snapshot before each phase
+ */
+async function applyPlan(
+  playlistId: string,
+  plan: PlaylistSyncPlan,
+  snapshotId: string,
+  spotifyId: string
+): Promise<string> {
+  let snapshot = snapshotId;
+
+  if (plan.removals.length > 0) {
+    await assertSnapshot(playlistId, snapshot, spotifyId);
+    for (let i = 0; i < plan.removals.length; i += BATCH_SIZE) {
+      const byUri = new Map<string, number[]>();
+      for (const { uri, position } of plan.removals.slice(i, i + BATCH_SIZE)) {
+        byUri.set(uri, [...(byUri.get(uri) || []), position]);
+      }
+      snapshot = await removePlaylistItems(
+        playlistId,
+        [...byUri].map(([uri, positions]) => ({ uri, positions })),
+        snapshot,
+        spotifyId
+      );
+    }
+  }
+
+  if (plan.moves.length > 0) {
+    await assertSnapshot(playlistId, snapshot, spotifyId);
+    for (const move of plan.moves) {
+      snapshot = await reorderPlaylistItem(
+        playlistId,
+        move.rangeStart,
+        move.insertBefore,
+        snapshot,
+        spotifyId
+      );
+    }
+  }
+
+  if (plan.insertions.length > 0) {
+    await assertSnapshot(playlistId, snapshot, spotifyId);
+    for (const insertion of plan.insertions) {
+      snapshot = await addPlaylistItems(
+        playlistId,
+        insertion.uris,
+        insertion.position,
+        spotifyId
+      );
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Bring a playlist to the desired track list, keeping added-at dates for
+ * tracks that stay
+ */
+export async function syncPlaylist(
+  playlistId: string,
+  desiredUris: string[],
+  spotifyId: string
+): Promise<PlaylistSyncResult> {
+  for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt++) {
+    const { snapshotId, uris } = await getPlaylistItems(playlistId, spotifyId);
+    const plan = planPlaylistSync(uris, desiredUris);
+
+    try {
+      const finalSnapshot = await applyPlan(
+        playlistId,
+        plan,
+        snapshotId,
+        spotifyId
+      );
+      return {
+        added: plan.insertions.reduce((sum, i) => sum + i.uris.length, 0),
+        removed: plan.removals.length,
+        moved: plan.moves.length,
+        attempts: attempt,
+        snapshotId: finalSnapshot,
+      };
+    } catch (error) {
+      if (!(error instanceof PlaylistChangedError)) throw error;
+      console.warn(
+        `Playlist ${playlistId} was edited during sync (attempt ${attempt}), re-planning`
+      );
+    }
+  }
+
+  throw new Error(
+    `Playlist ${playlistId} kept changing during sync - gave up after ${MAX_SYNC_ATTEMPTS} attempts`
+  );
+}
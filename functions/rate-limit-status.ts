@@ -0,0 +1,13 @@
+/**
+ * Rate limit status endpoint - Shared Spotify limiter state, for debugging
+ */
+import { createHandler, json, route } from './http';
+import { getLimiterState } from './rate-limiter';
+
+export const handler = createHandler('rate-limit-status', {
+  GET: route({
+    errorMessage: 'Failed to fetch rate limit state',
+    handle: async ({ session }) =>
+      json(await getLimiterState(session.spotifyId)),
+  }),
+});
@@ -0,0 +1,240 @@
+/**
+ * Shared Spotify rate limiter
+ *
+ * Token buckets persisted in Blobs so every function instance draws from the
+ * same budget: one global bucket for the app and one per user. Instances lease
+ * a few tokens at a time to keep Blob round-trips down. Spotify's Retry-After
+ * is written to the global bucket so all instances back off together.
+ *
+ * Persistence is last-write-wins (Blobs has no compare-and-swap), so the
+ * budgets are deliberately conservative.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  deleteRateLimitBucket,
+  getRateLimitBucket,
+  setRateLimitBucket,
+} from './storage';
+import type { RateLimitBucket } from '../src/types';
+
+export type RequestPriority = 'interactive' | 'background';
+
+interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface Lease {
+  tokens: number;
+  expiresAt: number;
+}
+
+// Spotify allows ~180 requests/min per app; stay under it
+const GLOBAL_BUCKET: BucketConfig = {
+  capacity: 150,
+  refillPerSecond: 150 / 60,
+};
+// No single user may take more than 60 requests/min of that
+const USER_BUCKET: BucketConfig = { capacity: 60, refillPerSecond: 1 };
+
+// Background work (the weekly scheduler) leaves this share for interactive use
+const BACKGROUND_RESERVE = 0.3;
+
+// Tokens taken per Blob round-trip, and how long unused ones stay valid
+const LEASE_SIZE = 5;
+const LEASE_TTL = 10 * 1000;
+
+// Backoff for 5xx and network errors
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 15 * 1000;
+
+const GLOBAL_KEY = 'global';
+
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+const leases = new Map<string, Lease>();
+
+/**
+ * Sleep helper
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run work at the given priority (e.g. the scheduler runs as background)
+ */
+export function runWithPriority<T>(
+  priority: RequestPriority,
+  fn: () => Promise<T>
+): Promise<T> {
+  return priorityContext.run(priority, fn);
+}
+
+/**
+ * Priority of the current async context
+ */
+export function getCurrentPriority(): RequestPriority {
+  return priorityContext.getStore() || 'interactive';
+}
+
+/**
+ * Full-jitter exponential backoff delay for a retry attempt (0-based)
+ */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    BACKOFF_MAX_MS,
+    BACKOFF_BASE_MS * Math.pow(2, attempt)
+  );
+  return Math.floor(Math.random() * ceiling);
+}
+
+function userKey(spotifyId: string): string {
+  return `users/${spotifyId}`;
+}
+
+/**
+ * Refill a bucket up to now
+ */
+function refill(
+  bucket: RateLimitBucket | null,
+  config: BucketConfig,
+  now: number
+): RateLimitBucket {
+  if (!bucket) {
+    return { tokens: config.capacity, updatedAt: now, blockedUntil: 0 };
+  }
+  const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+  return {
+    tokens: Math.min(
+      config.capacity,
+      bucket.tokens + elapsed * config.refillPerSecond
+    ),
+    updatedAt: now,
+    blockedUntil: bucket.blockedUntil || 0,
+  };
+}
+
+/**
+ * Wait until a request for this user may be sent
+ */
+export async function acquireRequestSlot(spotifyId: string): Promise<void> {
+  const priority = getCurrentPriority();
+  const leaseKey = `${priority}:${spotifyId}`;
+
+  for (;;) {
+    const now = Date.now();
+    const lease = leases.get(leaseKey);
+    if (lease && lease.tokens >= 1 && lease.expiresAt > now) {
+      lease.tokens--;
+      return;
+    }
+
+    const [globalStored, userStored] = await Promise.all([
+      getRateLimitBucket(GLOBAL_KEY),
+      getRateLimitBucket(userKey(spotifyId)),
+    ]);
+    const global = refill(globalStored, GLOBAL_BUCKET, now);
+    const user = refill(userStored, USER_BUCKET, now);
+
+    if (global.blockedUntil > now) {
+      const waitTime = global.blockedUntil - now;
+      console.log(`Spotify asked us to back off, waiting ${waitTime}ms`);
+      await sleep(waitTime);
+      continue;
+    }
+
+    const reserve =
+      priority === 'background'
+        ? GLOBAL_BUCKET.capacity * BACKGROUND_RESERVE
+        : 0;
+    const available = Math.floor(
+      Math.min(global.tokens - reserve, user.tokens)
+    );
+
+    if (available < 1) {
+      const globalWait =
+        (1 + reserve - global.tokens) / GLOBAL_BUCKET.refillPerSecond;
+      const userWait = (1 - user.tokens) / USER_BUCKET.refillPerSecond;
+      const waitTime = Math.ceil(Math.max(globalWait, userWait, 0.1) * 1000);
+      console.log(`Rate limit reached (${priority}), waiting ${waitTime}ms`);
+      await sleep(waitTime);
+      continue;
+    }
+
+    const taken = Math.min(LEASE_SIZE, available);
+    global.tokens -= taken;
+    user.tokens -= taken;
+    await Promise.all([
+      setRateLimitBucket(GLOBAL_KEY, global),
+      setRateLimitBucket(userKey(spotifyId), user),
+    ]);
+
+    leases.set(leaseKey, { tokens: taken - 1, expiresAt: now + LEASE_TTL });
+    return;
+  }
+}
+
+/**
+ * Record a 429 from Spotify so every instance honours its Retry-After
+ */
+export async function reportRetryAfter(
+  retryAfterSeconds: number
+): Promise<void> {
+  const now = Date.now();
+  const global = refill(
+    await getRateLimitBucket(GLOBAL_KEY),
+    GLOBAL_BUCKET,
+    now
+  );
+  global.blockedUntil = Math.max(
+    global.blockedUntil,
+    now + retryAfterSeconds * 1000
+  );
+  global.tokens = 0;
+  leases.clear();
+  await setRateLimitBucket(GLOBAL_KEY, global);
+}
+
+/**
+ * Drop a user's bucket (e.g. when their account is deleted)
+ */
+export async function forgetUserBucket(spotifyId: string): Promise<void> {
+  for (const key of [...leases.keys()]) {
+    if (key.endsWith(`:${spotifyId}`)) leases.delete(key);
+  }
+  await deleteRateLimitBucket(userKey(spotifyId));
+}
+
+/**
+ * Current limiter state, for debugging
+ */
+export async function getLimiterState(spotifyId?: string) {
+  const now = Date.now();
+  const global = refill(
+    await getRateLimitBucket(GLOBAL_KEY),
+    GLOBAL_BUCKET,
+    now
+  );
+  const user = spotifyId
+    ? refill(await getRateLimitBucket(userKey(spotifyId)), USER_BUCKET, now)
+    : null;
+
+  return {
+    now,
+    global: {
+      ...global,
+      capacity: GLOBAL_BUCKET.capacity,
+      refillPerSecond: GLOBAL_BUCKET.refillPerSecond,
+      backgroundReserve: GLOBAL_BUCKET.capacity * BACKGROUND_RESERVE,
+      blockedForMs: Math.max(0, global.blockedUntil - now),
+    },
+    user: user && {
+      ...user,
+      capacity: USER_BUCKET.capacity,
+      refillPerSecond: USER_BUCKET.refillPerSecond,
+    },
+    localLeases: Object.fromEntries(
+      [...leases].filter(([key]) => !spotifyId || key.endsWith(`:${spotifyId}`))
+    ),
+  };
+}
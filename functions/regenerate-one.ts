@@ -3,92 +3,76 @@
  * With cooldown enforcement to prevent spam
  */
 
-import { Handler } from '@netlify/functions';
-import { getUserFromRequest } from './auth-helpers';
-import { getWorldBlob, getUserKV, setUserKV } from './storage';
+import { z } from 'zod';
+import { createHandler, HttpError, json, route } from './http';
+import { getWorldBlob, getLastRegenTime, setLastRegenTime } from './storage';
+import { createJob, failJob, JobCancelledError } from './job-store';
+import { generatePlaylistsAsync } from './generate-playlists';
 
-export const handler: Handler = async (event) => {
-  if (event.httpMethod !== 'POST') {
-    return { statusCode: 405, body: 'Method Not Allowed' };
-  }
+const COOLDOWN_MS = 15 * 60 * 1000; // 15 minutes per playlist
 
-  try {
-    // Verify auth
-    const user = await getUserFromRequest(event);
-    if (!user) {
-      return {
-        statusCode: 401,
-        body: JSON.stringify({ error: 'Unauthorized' })
-      };
-    }
+const regenerateBodySchema = z.object({
+  playlistName: z.string().min(1),
+});
 
-    // Parse request
-    const body = JSON.parse(event.body || '{}');
-    const { playlistName } = body;
+export const handler = createHandler('regenerate-one', {
+  POST: route({
+    body: regenerateBodySchema,
+    errorMessage: 'Failed to regenerate playlist',
+    handle: async ({ session, body }) => {
+      const { spotifyId } = session;
+      const { playlistName } = body;
 
-    if (!playlistName) {
-      return {
-        statusCode: 400,
-        body: JSON.stringify({ error: 'Missing playlistName' })
-      };
-    }
+      // Check world exists
+      const world = await getWorldBlob(spotifyId);
+      if (!world) {
+        throw new HttpError(404, 'world_not_found', 'No world found');
+      }
+      if (!world.intersections.some((i) => i.name === playlistName)) {
+        throw new HttpError(
+          404,
+          'playlist_not_found',
+          `No playlist named ${playlistName}`
+        );
+      }
 
-    // Check world exists
-    const world = await getWorldBlob(user.spotifyId);
-    if (!world) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ error: 'No world found' })
-      };
-    }
+      // Check cooldown
+      const lastRegen = await getLastRegenTime(spotifyId, playlistName);
+      const now = Date.now();
 
-    // Check cooldown (15 minutes per playlist)
-    const cooldownKey = `cooldown:${user.spotifyId}:${playlistName}`;
-    const lastRegen = await getUserKV(cooldownKey);
-    const now = Date.now();
-    const cooldownMs = 15 * 60 * 1000; // 15 minutes
+      if (lastRegen && (now - lastRegen) < COOLDOWN_MS) {
+        const remainingMs = COOLDOWN_MS - (now - lastRegen);
+        const remainingMin = Math.ceil(remainingMs / 1000 / 60);
 
-    if (lastRegen && (now - (lastRegen as unknown as number)) < cooldownMs) {
-      const remainingMs = cooldownMs - (now - (lastRegen as unknown as number));
-      const remainingMin = Math.ceil(remainingMs / 1000 / 60);
-      
-      return {
-        statusCode: 429,
-        body: JSON.stringify({
-          error: `Please wait ${remainingMin} more minutes before regenerating this playlist`
-        })
-      };
-    }
+        throw new HttpError(
+          429,
+          'cooldown',
+          `Please wait ${remainingMin} more minutes before regenerating this playlist`
+        );
+      }
 
-    // Start regeneration
-    const jobId = `regen-${user.spotifyId}-${playlistName}-${Date.now()}`;
-    
-    await setUserKV(`job:${jobId}`, {
-      status: 'regenerating',
-      playlistName,
-      startedAt: Date.now()
-    });
+      // Start regeneration
+      const { id: jobId } = await createJob(spotifyId, 'regenerate-playlist', {
+        playlistName
+      });
 
-    // Set cooldown
-    await setUserKV(cooldownKey, now);
+      // Set cooldown
+      await setLastRegenTime(spotifyId, playlistName, now);
 
-    // TODO: Implement actual regeneration logic (similar to generate-playlists.ts)
-    // For now, return success
+      // Rebuild just this playlist (don't await - return immediately)
+      generatePlaylistsAsync(spotifyId, world, jobId, playlistName)
+        .catch(error => {
+          if (!(error instanceof JobCancelledError)) {
+            console.error('Playlist regeneration failed:', error);
+          }
+          return failJob(spotifyId, jobId, error);
+        });
 
-    return {
-      statusCode: 202,
-      body: JSON.stringify({
+      return json({
         jobId,
         message: `Regenerating ${playlistName}`,
         pollUrl: `/api/world-status?jobId=${jobId}`
-      })
-    };
-
-  } catch (error) {
-    console.error('Regenerate one error:', error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({ error: 'Failed to regenerate playlist' })
-    };
-  }
-};
+      }, 202);
+    },
+  }),
+});
@@ -0,0 +1,351 @@
+/**
+ * Typed access to user, job and session records
+ *
+ * Records are migrated and validated on read and stamped with their schema
+ * version on write. Handlers should go through here rather than raw KV keys.
+ * Saving a user also keeps their entry in the schedule index current.
+ */
+import { ZodError } from 'zod';
+import { deleteKV, getKV, listKVKeys, readKV, setKV } from './storage';
+import {
+  parseRecord,
+  SCHEMA_VERSIONS,
+  type RecordKind,
+  type RecordTypes,
+} from './schemas';
+import {
+  computeNextRunAt,
+  parseScheduleKey,
+  scheduleKey,
+  SCHEDULE_PREFIX,
+} from './schedule';
+import type { Job, SessionRecord, UserData } from '../src/types';
+
+export const userKey = (spotifyId: string) => `user:${spotifyId}`;
+export const jobKey = (ownerId: string, jobId: string) =>
+  `job:${ownerId}:${jobId}`;
+export const jobCancelKey = (ownerId: string, jobId: string) =>
+  `job-cancel:${ownerId}:${jobId}`;
+export const sessionKey = (spotifyId: string, sessionId: string) =>
+  `session:${spotifyId}:${sessionId}`;
+
+/**
+ * Whether a KV key is a user record (as opposed to e.g. a per-user cooldown)
+ */
+export function isUserKey(key: string): boolean {
+  return key.startsWith('user:') && !key.slice('user:'.length).includes(':');
+}
+
+function describeInvalid(error: unknown): string {
+  return error instanceof ZodError
+    ? error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+    : String(error);
+}
+
+async function readRecord<K extends RecordKind>(
+  kind: K,
+  key: string,
+  defaults: object = {}
+): Promise<RecordTypes[K] | null> {
+  const raw = await getKV(key);
+  if (!raw) return null;
+
+  try {
+    return parseRecord(kind, { ...defaults, ...raw });
+  } catch (error) {
+    console.error(`Invalid ${kind} record "${key}":`, describeInvalid(error));
+    return null;
+  }
+}
+
+/**
+ * Thrown by the strict readers when a record exists but can't be read or
+ * doesn't match its schema
+ */
+export class UnreadableRecordError extends Error {
+  constructor(
+    readonly key: string,
+    cause: unknown
+  ) {
+    super(`Record "${key}" is unreadable: ${describeInvalid(cause)}`);
+    this.name = 'UnreadableRecordError';
+  }
+}
+
+/**
+ * Like readRecord, but only null when the key is missing
+ */
+async function readRecordStrict<K extends RecordKind>(
+  kind: K,
+  key: string
+): Promise<RecordTypes[K] | null> {
+  let raw: unknown;
+  try {
+    raw = await readKV(key);
+  } catch (error) {
+    throw new UnreadableRecordError(key, error);
+  }
+  if (!raw) return null;
+
+  try {
+    return parseRecord(kind, raw);
+  } catch (error) {
+    throw new UnreadableRecordError(key, error);
+  }
+}
+
+async function writeRecord<K extends RecordKind>(
+  kind: K,
+  key: string,
+  record: RecordTypes[K]
+): Promise<RecordTypes[K]> {
+  const stamped = { ...record, schemaVersion: SCHEMA_VERSIONS[kind] };
+  const valid = parseRecord(kind, stamped);
+  await setKV(key, valid);
+  return valid;
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+/**
+ * Get a user; null when missing or unreadable (the user must sign in again)
+ */
+export function getUser(spotifyId: string): Promise<UserData | null> {
+  return readRecord('user', userKey(spotifyId));
+}
+
+/**
+ * Get a user; null only when there is no record, throws
+ * UnreadableRecordError when there is one we can't read
+ */
+export function getUserStrict(spotifyId: string): Promise<UserData | null> {
+  return readRecordStrict('user', userKey(spotifyId));
+}
+
+/**
+ * Replace a user record; throws if it doesn't match the schema
+ */
+export async function saveUser(user: UserData): Promise<UserData> {
+  const previous = await getUser(user.spotifyId);
+  const saved = await writeRecord('user', userKey(user.spotifyId), {
+    ...user,
+    nextRunAt: computeNextRunAt(user),
+  });
+
+  const oldKey = previous && scheduleKey(previous);
+  const newKey = scheduleKey(saved);
+  if (oldKey !== newKey) {
+    if (oldKey) await deleteKV(oldKey);
+    if (newKey) await setKV(newKey, saved.nextRunAt);
+  }
+  return saved;
+}
+
+/**
+ * Merge fields into an existing user record
+ */
+export async function updateUser(
+  spotifyId: string,
+  patch: Partial<Omit<UserData, 'spotifyId'>>
+): Promise<UserData | null> {
+  const user = await getUser(spotifyId);
+  if (!user) return null;
+  return saveUser({ ...user, ...patch, spotifyId });
+}
+
+/**
+ * Delete a user record and their schedule entry
+ */
+export async function deleteUser(spotifyId: string): Promise<void> {
+  const user = await getUser(spotifyId);
+  const key = user && scheduleKey(user);
+  if (key) await deleteKV(key);
+  await deleteKV(userKey(spotifyId));
+}
+
+/**
+ * Delete the user record and every KV record tied to it (per-playlist
+ * cooldowns, the user's jobs and sessions); returns how many keys were removed
+ */
+export async function deleteUserRecords(spotifyId: string): Promise<number> {
+  const keys = [
+    ...(await listKVKeys(`${userKey(spotifyId)}:`)),
+    ...(await listKVKeys(jobKey(spotifyId, ''))),
+    ...(await listKVKeys(jobCancelKey(spotifyId, ''))),
+    ...(await listKVKeys(sessionKey(spotifyId, ''))),
+  ];
+
+  for (const key of keys) {
+    await deleteKV(key);
+  }
+  await deleteUser(spotifyId);
+  return keys.length + 1;
+}
+
+/**
+ * List every readable user
+ */
+export async function listUsers(): Promise<UserData[]> {
+  try {
+    const keys = (await listKVKeys('user:')).filter(isUserKey);
+
+    const users: UserData[] = [];
+    for (const key of keys) {
+      const user = await readRecord('user', key);
+      if (user) users.push(user);
+    }
+    return users;
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return [];
+  }
+}
+
+/**
+ * Users whose scheduled refresh is due, earliest first
+ *
+ * Reads only the schedule index and the due users' records. Index entries
+ * that no longer match their user (deleted, or rescheduled by a write that
+ * didn't finish) are removed along the way.
+ */
+export async function listDueUsers(now = Date.now()): Promise<UserData[]> {
+  const due = (await listKVKeys(SCHEDULE_PREFIX))
+    .map((key) => ({ key, entry: parseScheduleKey(key) }))
+    .filter(({ entry }) => entry && entry.nextRunAt <= now)
+    .sort((a, b) => a.entry!.nextRunAt - b.entry!.nextRunAt);
+
+  const users: UserData[] = [];
+  for (const { key, entry } of due) {
+    const user = await getUser(entry!.spotifyId);
+    if (!user || scheduleKey(user) !== key) {
+      await deleteKV(key);
+      continue;
+    }
+    users.push(user);
+  }
+  return users;
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * Get a job; null when missing or owned by someone else
+ */
+export async function getJob(
+  ownerId: string,
+  jobId: string
+): Promise<Job | null> {
+  const job = await readRecord('job', jobKey(ownerId, jobId), { id: jobId });
+  return job && job.ownerId === ownerId ? job : null;
+}
+
+/**
+ * Replace a job record
+ */
+export function saveJob(job: Job): Promise<Job> {
+  return writeRecord('job', jobKey(job.ownerId, job.id), job);
+}
+
+/**
+ * Delete a job record and its cancellation flag
+ */
+export async function deleteJob(ownerId: string, jobId: string): Promise<void> {
+  await deleteKV(jobKey(ownerId, jobId));
+  await deleteKV(jobCancelKey(ownerId, jobId));
+}
+
+/**
+ * List a user's jobs, or every job without an owner (unsorted, expired
+ * ones included)
+ */
+export async function listJobs(ownerId?: string): Promise<Job[]> {
+  const keys = await listKVKeys(ownerId ? jobKey(ownerId, '') : 'job:');
+
+  const jobs: Job[] = [];
+  for (const key of keys) {
+    const job = await readRecord('job', key);
+    if (job) jobs.push(job);
+  }
+  return jobs;
+}
+
+/**
+ * Flag a job for cancellation; kept apart from the job record so the
+ * pipeline's own progress writes can't overwrite it
+ */
+export function setJobCancelRequested(
+  ownerId: string,
+  jobId: string
+): Promise<void> {
+  return setKV(jobCancelKey(ownerId, jobId), Date.now());
+}
+
+/**
+ * Whether cancellation was requested for a job
+ */
+export async function isJobCancelRequested(
+  ownerId: string,
+  jobId: string
+): Promise<boolean> {
+  return (await getKV(jobCancelKey(ownerId, jobId))) !== null;
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Get a session; null when missing or unreadable (the user must sign in again)
+ */
+export function getSessionRecord(
+  spotifyId: string,
+  sessionId: string
+): Promise<SessionRecord | null> {
+  return readRecord('session', sessionKey(spotifyId, sessionId));
+}
+
+/**
+ * Replace a session record
+ */
+export function saveSessionRecord(
+  session: SessionRecord
+): Promise<SessionRecord> {
+  return writeRecord(
+    'session',
+    sessionKey(session.spotifyId, session.id),
+    session
+  );
+}
+
+/**
+ * Delete a session record, which revokes it
+ */
+export function deleteSessionRecord(
+  spotifyId: string,
+  sessionId: string
+): Promise<void> {
+  return deleteKV(sessionKey(spotifyId, sessionId));
+}
+
+/**
+ * List a user's sessions, or everyone's without a user (unsorted, expired
+ * ones included)
+ */
+export async function listSessionRecords(
+  spotifyId?: string
+): Promise<SessionRecord[]> {
+  const keys = await listKVKeys(
+    spotifyId ? sessionKey(spotifyId, '') : 'session:'
+  );
+
+  const sessions: SessionRecord[] = [];
+  for (const key of keys) {
+    const session = await readRecord('session', key);
+    if (session) sessions.push(session);
+  }
+  return sessions;
+}
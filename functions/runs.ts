@@ -0,0 +1,36 @@
+/**
+ * Run history endpoint - generation manifests for the current user
+ *
+ * GET /api/runs              list runs, newest first
+ * GET /api/runs/:timestamp   one run's manifest
+ */
+import { createHandler, HttpError, json, route } from './http';
+import { getManifestBlob, listManifests } from './storage';
+
+export const handler = createHandler('runs', {
+  GET: route({
+    errorMessage: 'Failed to fetch run history',
+    handle: async ({ event, session, query }) => {
+      const { spotifyId } = session;
+
+      // /api/runs/:timestamp is rewritten to ?timestamp=; also accept the raw path
+      const timestamp =
+        query.timestamp || event.path.match(/\/runs\/(\d+)\/?$/)?.[1];
+
+      if (!timestamp) {
+        return json({ runs: await listManifests(spotifyId) });
+      }
+
+      if (!/^\d+$/.test(timestamp)) {
+        throw new HttpError(400, 'invalid_request', 'Invalid run timestamp');
+      }
+
+      const manifest = await getManifestBlob(spotifyId, Number(timestamp));
+      if (!manifest) {
+        throw new HttpError(404, 'run_not_found', 'Run not found');
+      }
+
+      return json(manifest);
+    },
+  }),
+});
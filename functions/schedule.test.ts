@@ -0,0 +1,147 @@
+import { randomBytes } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  computeNextRunAt,
+  parseScheduleKey,
+  scheduleKey,
+  SCHEDULE_PREFIX,
+} from './schedule';
+import { deleteUser, listDueUsers, saveUser, updateUser } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import { listKVKeys, setKV } from './storage';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { encryptToken } from './token-crypto';
+import type { UserData, UserSettings } from '../src/types';
+
+// 2026-01-01 is a Thursday; runs land on Mondays at 15:00 UTC
+const at = (date: string) => Date.parse(`${date}Z`);
+
+function user(
+  settings: Partial<UserSettings>,
+  fields: Partial<UserData> = {}
+): UserData {
+  return {
+    spotifyId: 'someone',
+    displayName: 'Someone',
+    email: 'someone@example.test',
+    refreshToken: { keyId: 'k', iv: 'iv', tag: 'tag', ciphertext: 'c' },
+    grantedScopes: [],
+    createdAt: at('2026-01-01T10:00:00'),
+    settings: { ...DEFAULT_USER_SETTINGS, ...settings },
+    ...fields,
+  };
+}
+
+describe('computeNextRunAt', () => {
+  it.each([
+    ['weekly', '2026-01-01T10:00:00', '2026-01-05T15:00:00'],
+    ['weekly', '2026-01-05T14:59:59', '2026-01-05T15:00:00'],
+    ['weekly', '2026-01-05T15:00:00', '2026-01-12T15:00:00'],
+    ['biweekly', '2026-01-01T10:00:00', '2026-01-12T15:00:00'],
+    ['monthly', '2026-01-20T10:00:00', '2026-02-02T15:00:00'],
+    ['monthly', '2026-12-07T15:00:00', '2027-01-04T15:00:00'],
+  ] as const)('%s from %s is due %s', (cadence, from, due) => {
+    expect(computeNextRunAt(user({ cadence }, { createdAt: at(from) }))).toBe(
+      at(due)
+    );
+  });
+
+  it('counts from the last refresh once there is one', () => {
+    const refreshed = user(
+      { cadence: 'weekly' },
+      { lastWeeklyRefresh: at('2026-01-12T15:00:00') }
+    );
+
+    expect(computeNextRunAt(refreshed)).toBe(at('2026-01-19T15:00:00'));
+  });
+
+  it('leaves manual and disabled users unscheduled', () => {
+    expect(computeNextRunAt(user({ cadence: 'manual' }))).toBeUndefined();
+    expect(computeNextRunAt(user({ weeklyEnabled: false }))).toBeUndefined();
+  });
+});
+
+describe('schedule keys', () => {
+  it('pads the run time so keys sort by time', () => {
+    const early = scheduleKey(user({}, { nextRunAt: 5 }));
+    const late = scheduleKey(
+      user({}, { nextRunAt: at('2026-01-05T15:00:00') })
+    );
+
+    expect(early).toBe(`${SCHEDULE_PREFIX}0000000000005:weekly:someone`);
+    expect([late, early].sort()).toEqual([early, late]);
+  });
+
+  it('has no key for unscheduled users', () => {
+    expect(scheduleKey(user({ cadence: 'manual' }))).toBeNull();
+  });
+
+  it('reads keys back, including IDs with colons', () => {
+    const key = scheduleKey(
+      user({ cadence: 'monthly' }, { spotifyId: 'a:b', nextRunAt: 42 })
+    )!;
+
+    expect(parseScheduleKey(key)).toEqual({
+      nextRunAt: 42,
+      cadence: 'monthly',
+      spotifyId: 'a:b',
+    });
+  });
+
+  it.each(['schedule:', 'schedule:abc:weekly:x', 'schedule:42:weekly:'])(
+    'rejects %s',
+    (key) => {
+      expect(parseScheduleKey(key)).toBeNull();
+    }
+  );
+});
+
+describe('schedule index', () => {
+  beforeAll(() => {
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+    setStorageBackend(createMemoryBackend);
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  const stored = (spotifyId: string, settings: Partial<UserSettings> = {}) =>
+    user(settings, {
+      spotifyId,
+      refreshToken: encryptToken('refresh', spotifyId),
+    });
+
+  it('keeps one index entry per scheduled user', async () => {
+    await saveUser(stored('weekly-user'));
+    await saveUser(stored('manual-user', { cadence: 'manual' }));
+    await updateUser('weekly-user', {
+      settings: { ...DEFAULT_USER_SETTINGS, cadence: 'monthly' },
+    });
+
+    expect(await listKVKeys(SCHEDULE_PREFIX)).toEqual([
+      `${SCHEDULE_PREFIX}${at('2026-02-02T15:00:00')}:monthly:weekly-user`,
+    ]);
+  });
+
+  it('lists due users earliest first and drops stale entries', async () => {
+    await saveUser(stored('biweekly-user', { cadence: 'biweekly' }));
+    await saveUser(stored('deleted-user'));
+    await deleteUser('deleted-user');
+    const orphan = `${SCHEDULE_PREFIX}${at('2026-01-05T15:00:00')}:weekly:gone`;
+    await setKV(orphan, 0);
+
+    const due = await listDueUsers(at('2026-03-01T00:00:00'));
+
+    expect(due.map((u) => u.spotifyId)).toEqual([
+      'biweekly-user',
+      'weekly-user',
+    ]);
+    expect(await listKVKeys(SCHEDULE_PREFIX)).not.toContain(orphan);
+    expect(await listDueUsers(at('2026-01-06T00:00:00'))).toEqual([]);
+  });
+});
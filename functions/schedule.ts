@@ -0,0 +1,88 @@
+/**
+ * Refresh schedule - when each user's playlists are next due, and the KV
+ * index the scheduler reads instead of scanning every user record
+ *
+ * Index keys are `schedule:{nextRunAt}:{cadence}:{spotifyId}`, with the run
+ * time zero-padded so keys sort by time. Every cadence lands on a Monday at
+ * the scheduled function's hour (see netlify.toml).
+ */
+import type { UserData, UserSettings } from '../src/types';
+
+export const SCHEDULE_PREFIX = 'schedule:';
+
+const RUN_HOUR_UTC = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONDAY = 1;
+
+export interface ScheduleEntry {
+  nextRunAt: number;
+  cadence: UserSettings['cadence'];
+  spotifyId: string;
+}
+
+/**
+ * The first Monday run strictly after the given time
+ */
+function nextMondayRun(after: number): number {
+  const date = new Date(after);
+  date.setUTCHours(RUN_HOUR_UTC, 0, 0, 0);
+  while (date.getUTCDay() !== MONDAY || date.getTime() <= after) {
+    date.setTime(date.getTime() + DAY_MS);
+  }
+  return date.getTime();
+}
+
+/**
+ * The first Monday run of the month after the given time's month
+ */
+function firstMondayOfNextMonth(after: number): number {
+  const date = new Date(after);
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return nextMondayRun(start - 1);
+}
+
+/**
+ * When the user's next refresh is due; undefined when they don't get
+ * scheduled refreshes
+ *
+ * Counted from the last refresh (or sign-up), so it only moves when that or
+ * the cadence changes.
+ */
+export function computeNextRunAt(user: UserData): number | undefined {
+  const { cadence, weeklyEnabled } = user.settings;
+  if (!weeklyEnabled || cadence === 'manual') return undefined;
+
+  const from = user.lastWeeklyRefresh ?? user.createdAt;
+  switch (cadence) {
+    case 'weekly':
+      return nextMondayRun(from);
+    case 'biweekly':
+      return nextMondayRun(from + 7 * DAY_MS);
+    case 'monthly':
+      return firstMondayOfNextMonth(from);
+  }
+}
+
+/**
+ * The index key for a user, or null when they aren't scheduled
+ */
+export function scheduleKey(user: UserData): string | null {
+  if (user.nextRunAt === undefined) return null;
+  const time = String(user.nextRunAt).padStart(13, '0');
+  return `${SCHEDULE_PREFIX}${time}:${user.settings.cadence}:${user.spotifyId}`;
+}
+
+/**
+ * Read an index key back; null for anything malformed
+ */
+export function parseScheduleKey(key: string): ScheduleEntry | null {
+  const [time, cadence, ...rest] = key.slice(SCHEDULE_PREFIX.length).split(':');
+  const nextRunAt = Number(time);
+  const spotifyId = rest.join(':');
+  if (!Number.isFinite(nextRunAt) || !cadence || !spotifyId) return null;
+  return {
+    nextRunAt,
+    cadence: cadence as UserSettings['cadence'],
+    spotifyId,
+  };
+}
@@ -0,0 +1,166 @@
+import { randomBytes } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ZodError } from 'zod';
+import {
+  DEFAULT_USER_SETTINGS,
+  JOB_RETENTION_MS,
+  migrateRecord,
+  parseRecord,
+  SCHEMA_VERSIONS,
+} from './schemas';
+import { decryptToken, encryptToken } from './token-crypto';
+
+beforeAll(() => {
+  vi.stubEnv(
+    'TOKEN_ENCRYPTION_KEYS',
+    `test:${randomBytes(32).toString('base64')}`
+  );
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('user migrations', () => {
+  const legacyUser = {
+    spotifyId: 'someone',
+    displayName: 'Someone',
+    refreshToken: 'plaintext-refresh',
+    hasWorld: true,
+    worldId: 'world-someone-1',
+    lastUpdated: 1_700_000_000_000,
+    tokenRefreshedAt: 1_700_000_000_000,
+    settings: { cadence: 'monthly' },
+  };
+
+  it('walks an unversioned user up to the current version', () => {
+    const user = parseRecord('user', legacyUser);
+
+    expect(user.schemaVersion).toBe(SCHEMA_VERSIONS.user);
+    expect(user).not.toHaveProperty('hasWorld');
+    expect(user).not.toHaveProperty('tokenRefreshedAt');
+    expect(user.email).toBe('');
+    expect(user.createdAt).toBe(legacyUser.lastUpdated);
+    expect(user.settings).toEqual({
+      ...DEFAULT_USER_SETTINGS,
+      cadence: 'monthly',
+    });
+    // What login asked for before scopes were tracked, and nothing newer
+    expect(user.grantedScopes).toEqual([
+      'user-read-email',
+      'user-top-read',
+      'user-read-recently-played',
+      'playlist-read-private',
+      'playlist-modify-public',
+      'playlist-modify-private',
+      'ugc-image-upload',
+    ]);
+  });
+
+  it('encrypts plaintext refresh tokens for their owner', () => {
+    const { refreshToken } = parseRecord('user', legacyUser);
+
+    expect(JSON.stringify(refreshToken)).not.toContain('plaintext-refresh');
+    expect(decryptToken(refreshToken, 'someone')).toBe('plaintext-refresh');
+    expect(() => decryptToken(refreshToken, 'someone-else')).toThrow();
+  });
+
+  it('leaves current records alone', () => {
+    const current = {
+      schemaVersion: SCHEMA_VERSIONS.user,
+      spotifyId: 'someone',
+      displayName: 'Someone',
+      email: 'someone@example.test',
+      refreshToken: encryptToken('refresh', 'someone'),
+      grantedScopes: ['user-read-email'],
+      createdAt: 1,
+      settings: DEFAULT_USER_SETTINGS,
+    };
+
+    expect(migrateRecord('user', current)).toEqual(current);
+    expect(parseRecord('user', current)).toEqual(current);
+  });
+
+  it('rejects records that still do not fit the schema', () => {
+    expect(() =>
+      parseRecord('user', { ...legacyUser, refreshToken: undefined })
+    ).toThrow(ZodError);
+  });
+});
+
+describe('world migrations', () => {
+  it('fills the collections early worlds were missing', () => {
+    const world = migrateRecord('world', {
+      name: 'Old World',
+      seedTrackIds: ['a', 'b'],
+      featureRanges: { energy: [0, 1] },
+    });
+
+    expect(world).toMatchObject({
+      schemaVersion: 1,
+      worldName: 'Old World',
+      seedTracks: ['a', 'b'],
+      audioFeatureRanges: { energy: [0, 1] },
+      keywords: [],
+      excludeKeywords: [],
+      topGenres: [],
+      topArtists: [],
+      intersections: [],
+      playlists: {},
+    });
+  });
+});
+
+describe('job migrations', () => {
+  const finishedAt = 1_700_000_000_000;
+
+  it.each([
+    ['world-abc-1700000000000', undefined, 'build-world', 'abc'],
+    ['world-abc-def-1700000000000', undefined, 'build-world', 'abc-def'],
+    ['playlists-x_y-1700000000000', undefined, 'generate-playlists', 'x_y'],
+    [
+      'regen-a-b-Night-Drive-1700000000000',
+      'Night-Drive',
+      'regenerate-playlist',
+      'a-b',
+    ],
+  ])('reads the kind and owner from %s', (id, playlistName, kind, ownerId) => {
+    const job = parseRecord('job', {
+      id,
+      status: 'complete',
+      completedAt: finishedAt,
+      playlistName,
+    });
+
+    expect(job).toMatchObject({
+      kind,
+      ownerId,
+      status: 'complete',
+      progress: 100,
+      finishedAt,
+      updatedAt: finishedAt,
+      expiresAt: finishedAt + JOB_RETENTION_MS,
+    });
+  });
+
+  it('treats unfinished legacy jobs as running', () => {
+    const job = parseRecord('job', {
+      id: 'world-abc-1700000000000',
+      status: 'processing',
+      currentStep: 'Saving world...',
+      updatedAt: finishedAt,
+    });
+
+    expect(job.status).toBe('running');
+    expect(job.finishedAt).toBeUndefined();
+    expect(job.steps).toEqual([
+      { name: 'Saving world...', startedAt: finishedAt },
+    ]);
+  });
+
+  it('rejects legacy IDs it cannot attribute', () => {
+    expect(() =>
+      parseRecord('job', { id: 'mystery', status: 'complete' })
+    ).toThrow(ZodError);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Schemas and migrations for stored records
+ *
+ * Every record carries a schemaVersion. Records written before versioning
+ * count as version 0 and are walked up through the migrations on read.
+ */
+import { z } from 'zod';
+import { encryptToken } from './token-crypto';
+import { LEGACY_GRANTED_SCOPES } from './scopes';
+import type {
+  Job,
+  SessionRecord,
+  UserData,
+  WorldDefinition,
+} from '../src/types';
+
+export interface RecordTypes {
+  user: UserData;
+  world: WorldDefinition;
+  job: Job;
+  session: SessionRecord;
+}
+
+export type RecordKind = keyof RecordTypes;
+
+type StoredRecord = Record<string, unknown>;
+type Migration = (record: StoredRecord) => StoredRecord;
+
+export const SCHEMA_VERSIONS: Record<RecordKind, number> = {
+  user: 3,
+  world: 1,
+  job: 2,
+  session: 1,
+};
+
+// How long finished (or abandoned) jobs are kept
+export const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_USER_SETTINGS: UserData['settings'] = {
+  cadence: 'weekly',
+  continuity: 0.3,
+  blocklist: [],
+  weeklyEnabled: true,
+};
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const userSettingsSchema = z.object({
+  cadence: z.enum(['weekly', 'biweekly', 'monthly', 'manual']),
+  continuity: z.number().min(0).max(1),
+  blocklist: z.array(z.string()),
+  weeklyEnabled: z.boolean(),
+});
+
+// The settings a user can change directly (PATCH /api/me)
+export const userSettingsPatchSchema = userSettingsSchema
+  .pick({ cadence: true, continuity: true, weeklyEnabled: true })
+  .partial()
+  .strict();
+
+export const userSchema: z.ZodType<UserData> = z.object({
+  schemaVersion: z.number().int().optional(),
+  spotifyId: z.string().min(1),
+  displayName: z.string(),
+  email: z.string(),
+  country: z.string().optional(),
+  refreshToken: z.object({
+    keyId: z.string().min(1),
+    iv: z.string().min(1),
+    tag: z.string().min(1),
+    ciphertext: z.string().min(1),
+  }),
+  accessToken: z.string().optional(),
+  accessTokenExpiresAt: z.number().optional(),
+  grantedScopes: z.array(z.string()),
+  createdAt: z.number(),
+  lastRunAt: z.number().optional(),
+  lastWeeklyRefresh: z.number().optional(),
+  nextRunAt: z.number().optional(),
+  loginHistory: z
+    .array(z.object({ at: z.number(), device: z.string() }))
+    .optional(),
+  sessionsRevokedBefore: z.number().optional(),
+  settings: userSettingsSchema,
+});
+
+const featureRangeSchema = z.tuple([z.number(), z.number()]);
+
+// Only the fields the pipeline relies on are checked; the rest pass through
+export const worldSchema = z
+  .object({
+    schemaVersion: z.number().int().optional(),
+    version: z.string().optional(),
+    userId: z.string().min(1),
+    createdAt: z.number(),
+    worldName: z.string(),
+    description: z.string(),
+    tasteCentroid: z.array(z.number()),
+    semanticCentroid: z.array(z.number()),
+    audioFeatureRanges: z.record(featureRangeSchema),
+    topGenres: z.array(z.string()),
+    topArtists: z.array(z.string()),
+    seedTracks: z.array(z.string()),
+    emotionalGeometry: z.object({
+      darkness_warmth: z.number(),
+      intimate_expansive: z.number(),
+      acoustic_electronic: z.number(),
+    }),
+    keywords: z.array(z.string()),
+    excludeKeywords: z.array(z.string()),
+    intersections: z.array(
+      z
+        .object({
+          name: z.string(),
+          description: z.string(),
+          bias: z.record(z.number()),
+        })
+        .passthrough()
+    ),
+    playlists: z.record(z.object({ id: z.string(), url: z.string() })),
+  })
+  .passthrough();
+
+export const jobSchema: z.ZodType<Job> = z.object({
+  schemaVersion: z.number().int().optional(),
+  id: z.string().min(1),
+  kind: z.enum(['build-world', 'generate-playlists', 'regenerate-playlist']),
+  ownerId: z.string().min(1),
+  status: z.enum(['queued', 'running', 'complete', 'failed', 'cancelled']),
+  progress: z.number().min(0).max(100),
+  currentStep: z.string().optional(),
+  steps: z.array(
+    z.object({
+      name: z.string(),
+      startedAt: z.number(),
+      completedAt: z.number().optional(),
+    })
+  ),
+  error: z.string().optional(),
+  reason: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  finishedAt: z.number().optional(),
+  expiresAt: z.number(),
+  result: z
+    .object({
+      worldId: z.string().optional(),
+      worldVersion: z.string().optional(),
+      featureCoverage: z
+        .object({
+          total: z.number(),
+          withFeatures: z.number(),
+          ratio: z.number(),
+        })
+        .optional(),
+      playlistName: z.string().optional(),
+      playlistCount: z.number().optional(),
+      candidateSources: z
+        .record(z.object({ count: z.number(), error: z.string().optional() }))
+        .optional(),
+      runTimestamp: z.number().optional(),
+    })
+    .optional(),
+});
+
+export const sessionSchema: z.ZodType<SessionRecord> = z.object({
+  schemaVersion: z.number().int().optional(),
+  id: z.string().min(1),
+  spotifyId: z.string().min(1),
+  device: z.string(),
+  createdAt: z.number(),
+  lastSeenAt: z.number(),
+  expiresAt: z.number(),
+});
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+const LEGACY_JOB_KINDS: Record<string, Job['kind']> = {
+  world: 'build-world',
+  playlists: 'generate-playlists',
+  regen: 'regenerate-playlist',
+};
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<RecordKind, Record<number, Migration>> = {
+  user: {
+    // build-world used to overwrite the record with world flags, and the
+    // weekly job stored its own token bookkeeping
+    0: (record) => {
+      const migrated = { ...record };
+      for (const field of [
+        'hasWorld',
+        'worldId',
+        'worldCreatedAt',
+        'lastUpdated',
+        'tokenRefreshedAt',
+      ]) {
+        delete migrated[field];
+      }
+
+      const spotifyId = String(migrated.spotifyId ?? '');
+      return {
+        ...migrated,
+        spotifyId,
+        displayName: migrated.displayName || spotifyId,
+        email: migrated.email ?? '',
+        createdAt: migrated.createdAt ?? record.lastUpdated ?? Date.now(),
+        settings: {
+          ...DEFAULT_USER_SETTINGS,
+          ...((migrated.settings as object) || {}),
+        },
+      };
+    },
+    // Refresh tokens were stored in plaintext
+    1: (record) => ({
+      ...record,
+      refreshToken:
+        typeof record.refreshToken === 'string' && record.refreshToken
+          ? encryptToken(record.refreshToken, String(record.spotifyId))
+          : record.refreshToken,
+    }),
+    // Granted scopes weren't tracked; every login asked for the full list
+    2: (record) => ({
+      ...record,
+      grantedScopes: record.grantedScopes ?? LEGACY_GRANTED_SCOPES,
+    }),
+  },
+  world: {
+    // Early worlds could miss the collections added later
+    0: (record) => ({
+      ...record,
+      worldName: record.worldName ?? record.name ?? '',
+      seedTracks: record.seedTracks ?? record.seedTrackIds ?? [],
+      audioFeatureRanges: record.audioFeatureRanges ?? record.featureRanges,
+      keywords: record.keywords ?? [],
+      excludeKeywords: record.excludeKeywords ?? [],
+      topGenres: record.topGenres ?? [],
+      topArtists: record.topArtists ?? [],
+      intersections: record.intersections ?? [],
+      playlists: record.playlists ?? {},
+    }),
+  },
+  job: {
+    // Finished jobs were written without updatedAt
+    0: (record) => ({
+      ...record,
+      updatedAt: record.updatedAt ?? record.completedAt ?? record.failedAt,
+    }),
+    // Ad-hoc job blobs become owned Jobs; kind and owner come from the ID
+    // (`{world|playlists|regen}-{spotifyId}[-{playlistName}]-{timestamp}`),
+    // which the reader supplies. Spotify IDs can contain `-`, so the owner is
+    // everything between the kind and the timestamp, less regen's playlist
+    1: (record) => {
+      const id = String(record.id ?? '');
+      const [, prefix = '', owner = ''] =
+        id.match(/^([a-z]+)-(.+)-(\d+)$/) || [];
+      const playlistSuffix =
+        prefix === 'regen' && record.playlistName
+          ? `-${record.playlistName}`
+          : '';
+      const ownerId =
+        (playlistSuffix && owner.endsWith(playlistSuffix)
+          ? owner.slice(0, -playlistSuffix.length)
+          : owner) || undefined;
+      const finishedAt = (record.completedAt ?? record.failedAt) as
+        number | undefined;
+      const updatedAt = (record.updatedAt ??
+        finishedAt ??
+        Date.now()) as number;
+      const status = ['complete', 'failed'].includes(String(record.status))
+        ? record.status
+        : 'running';
+
+      return {
+        id,
+        kind: LEGACY_JOB_KINDS[prefix],
+        ownerId,
+        status,
+        progress: record.progress ?? (status === 'complete' ? 100 : 0),
+        currentStep: record.currentStep,
+        steps: record.currentStep
+          ? [{ name: record.currentStep, startedAt: updatedAt }]
+          : [],
+        error: record.error,
+        reason: record.reason,
+        createdAt: record.startedAt ?? updatedAt,
+        updatedAt,
+        finishedAt,
+        expiresAt: (finishedAt ?? updatedAt) + JOB_RETENTION_MS,
+        result: {
+          worldId: record.worldId,
+          worldVersion: record.worldVersion,
+          featureCoverage: record.featureCoverage,
+          playlistName: record.playlistName,
+          playlistCount: record.playlistCount,
+          candidateSources: record.candidateSources,
+          runTimestamp: record.runTimestamp,
+        },
+      };
+    },
+  },
+  session: {},
+};
+
+/**
+ * Read a record's schema version (0 when it predates versioning)
+ */
+export function getSchemaVersion(record: unknown): number {
+  const version = (record as StoredRecord | null)?.schemaVersion;
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Bring a stored record up to the current schema version
+ */
+export function migrateRecord(kind: RecordKind, record: unknown): unknown {
+  if (!record || typeof record !== 'object') return record;
+
+  let migrated = record as StoredRecord;
+  for (
+    let version = getSchemaVersion(migrated);
+    version < SCHEMA_VERSIONS[kind];
+    version++
+  ) {
+    const migration = MIGRATIONS[kind][version];
+    migrated = {
+      ...(migration ? migration(migrated) : migrated),
+      schemaVersion: version + 1,
+    };
+  }
+  return migrated;
+}
+
+/**
+ * Migrate and validate a stored record; throws a ZodError when invalid
+ */
+export function parseRecord<K extends RecordKind>(
+  kind: K,
+  record: unknown
+): RecordTypes[K] {
+  const migrated = migrateRecord(kind, record);
+  const schemas = {
+    user: userSchema,
+    world: worldSchema,
+    job: jobSchema,
+    session: sessionSchema,
+  };
+  return schemas[kind].parse(migrated) as RecordTypes[K];
+}
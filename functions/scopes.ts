@@ -0,0 +1,76 @@
+/**
+ * Spotify scopes - what login asks for, what each optional feature needs,
+ * and the incremental consent URL for scopes a user hasn't granted yet
+ *
+ * Login only asks for what building and saving a world needs. Library,
+ * playlist and followed-artist seeds ask for their scopes the first time a
+ * user picks them.
+ */
+
+// Profile, history seeds and the playlists (with covers) we create
+export const LOGIN_SCOPES = [
+  'user-read-email',
+  'user-read-private',
+  'user-top-read',
+  'user-read-recently-played',
+  'playlist-modify-public',
+  'playlist-modify-private',
+  'ugc-image-upload',
+];
+
+export type ScopedFeature =
+  'playlist-seeds' | 'library-seeds' | 'followed-artist-seeds';
+
+export const FEATURE_SCOPES: Record<ScopedFeature, string[]> = {
+  'playlist-seeds': ['playlist-read-private'],
+  'library-seeds': ['user-library-read'],
+  'followed-artist-seeds': ['user-follow-read'],
+};
+
+// What every login asked for before scopes were tracked
+export const LEGACY_GRANTED_SCOPES = [
+  'user-read-email',
+  'user-top-read',
+  'user-read-recently-played',
+  'playlist-read-private',
+  'playlist-modify-public',
+  'playlist-modify-private',
+  'ugc-image-upload',
+];
+
+const KNOWN_SCOPES = new Set([
+  ...LOGIN_SCOPES,
+  ...Object.values(FEATURE_SCOPES).flat(),
+]);
+
+/**
+ * Split a space- or comma-separated scope string, dropping duplicates
+ */
+export function parseScopes(scope: string | undefined | null): string[] {
+  return [...new Set((scope || '').split(/[\s,]+/).filter(Boolean))];
+}
+
+/**
+ * Scopes we know how to ask for; anything else in a request is ignored
+ */
+export function filterKnownScopes(scopes: string[]): string[] {
+  return scopes.filter((scope) => KNOWN_SCOPES.has(scope));
+}
+
+/**
+ * Required scopes missing from a grant
+ */
+export function getMissingScopes(
+  granted: string[],
+  required: string[]
+): string[] {
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * Where to send the user to grant extra scopes; the auth function adds
+ * what they already granted, so Spotify only prompts for the new ones
+ */
+export function getConsentUrl(scopes: string[]): string {
+  return `/api/auth?scopes=${encodeURIComponent(scopes.join(' '))}`;
+}
@@ -1,38 +1,36 @@
 /**
  * Search tracks endpoint (for individual track selection)
+ *
+ * GET ?q=<query>
  */
-import type { Handler, HandlerEvent } from '@netlify/functions';
-import { requireAuth, errorResponse, successResponse } from './auth-helpers';
-import { searchTracks } from './spotify';
+import { z } from 'zod';
+import { createHandler, json, route } from './http';
+import { isTrackPlayable, searchTracks } from './spotify';
 
-export const handler: Handler = async (event: HandlerEvent) => {
-  const auth = await requireAuth(event);
-  if ('statusCode' in auth) {
-    return auth;
-  }
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+});
 
-  const { spotifyId } = auth;
-  const { q } = event.queryStringParameters || {};
+export const handler = createHandler('search-tracks', {
+  GET: route({
+    query: searchQuerySchema,
+    errorMessage: 'Failed to search tracks',
+    handle: async ({ session, query }) => {
+      // With the user's market, Spotify only returns tracks they can play
+      const tracks = (
+        await searchTracks(query.q, session.spotifyId, 20, session.user.country)
+      ).filter(isTrackPlayable);
 
-  if (!q) {
-    return errorResponse('Missing search query', 400);
-  }
-
-  try {
-    const tracks = await searchTracks(q, spotifyId, 20);
-
-    return successResponse({
-      tracks: tracks.map((t) => ({
-        id: t.id,
-        name: t.name,
-        artist: t.artists[0]?.name || 'Unknown',
-        album: t.album.name,
-        image: t.album.images[0]?.url || null,
-        preview_url: t.preview_url,
-      })),
-    });
-  } catch (error) {
-    console.error('Error searching tracks:', error);
-    return errorResponse('Failed to search tracks');
-  }
-};
+      return json({
+        tracks: tracks.map((t) => ({
+          id: t.id,
+          name: t.name,
+          artist: t.artists[0]?.name || 'Unknown',
+          album: t.album.name,
+          image: t.album.images[0]?.url || null,
+          preview_url: t.preview_url,
+        })),
+      });
+    },
+  }),
+});
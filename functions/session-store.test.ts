@@ -0,0 +1,95 @@
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { saveUser } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import {
+  createSession,
+  LEGACY_SESSION_ID,
+  readSessionToken,
+  resolveSession,
+  revokeLegacySessions,
+  revokeOtherSessions,
+  SESSION_COOKIE,
+} from './session-store';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+import { encryptToken } from './token-crypto';
+
+const SECRET = 'session-store-test-secret'.padEnd(40, 'x');
+const DAY_SECONDS = 24 * 60 * 60;
+
+// A token as issued before the registry: no sid
+function legacyCookie(spotifyId: string, issuedAt: number): string {
+  const iat = Math.floor(issuedAt / 1000);
+  const token = jwt.sign(
+    { spotifyId, iat, exp: iat + 30 * DAY_SECONDS },
+    SECRET
+  );
+  return `${SESSION_COOKIE}=${token}`;
+}
+
+async function resolveCookie(cookie: string) {
+  const payload = readSessionToken(cookie);
+  return payload && resolveSession(payload);
+}
+
+async function createUser(spotifyId: string): Promise<void> {
+  await saveUser({
+    spotifyId,
+    displayName: spotifyId,
+    email: `${spotifyId}@example.test`,
+    refreshToken: encryptToken('refresh', spotifyId),
+    grantedScopes: [],
+    createdAt: Date.now(),
+    settings: DEFAULT_USER_SETTINGS,
+  });
+}
+
+describe('sessions', () => {
+  beforeAll(() => {
+    vi.stubEnv('JWT_SECRET', SECRET);
+    vi.stubEnv(
+      'TOKEN_ENCRYPTION_KEYS',
+      `test:${randomBytes(32).toString('base64')}`
+    );
+    setStorageBackend(createMemoryBackend);
+  });
+
+  afterAll(() => {
+    setStorageBackend(null);
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts tokens without a sid until they are revoked', async () => {
+    await createUser('legacy-user');
+    const cookie = legacyCookie('legacy-user', Date.now() - 1000);
+
+    expect((await resolveCookie(cookie))?.id).toBe(LEGACY_SESSION_ID);
+
+    await revokeLegacySessions('legacy-user');
+
+    expect(await resolveCookie(cookie)).toBeNull();
+  });
+
+  it('refuses tokens without a sid for users that are gone', async () => {
+    expect(
+      await resolveCookie(legacyCookie('nobody', Date.now() - 1000))
+    ).toBeNull();
+  });
+
+  it('ends tokens without a sid when signing out other sessions', async () => {
+    await createUser('mixed-user');
+    const legacy = legacyCookie('mixed-user', Date.now() - 1000);
+    const current = (await createSession('mixed-user', undefined)).split(
+      ';'
+    )[0];
+    const other = (await createSession('mixed-user', undefined)).split(';')[0];
+    const currentId = readSessionToken(current)!.sid!;
+
+    expect(await revokeOtherSessions('mixed-user', currentId)).toBe(1);
+
+    expect(await resolveCookie(legacy)).toBeNull();
+    expect(await resolveCookie(other)).toBeNull();
+    expect((await resolveCookie(current))?.id).toBe(currentId);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Session registry - every sign-in gets a stored session whose ID rides in
+ * the session JWT, so sessions can be listed and revoked before they expire
+ */
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { parse, serialize } from 'cookie';
+import {
+  deleteSessionRecord,
+  getSessionRecord,
+  getUser,
+  listSessionRecords,
+  saveSessionRecord,
+  updateUser,
+} from './repository';
+import type { SessionRecord, SessionSummary } from '../src/types';
+
+export const SESSION_COOKIE = 'session';
+
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// lastSeenAt is only rewritten once it's this stale, so reads stay reads
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+// Stands in for the missing sid of tokens issued before the registry
+export const LEGACY_SESSION_ID = 'legacy';
+
+export interface SessionPayload {
+  spotifyId: string;
+  sid?: string; // Missing from tokens issued before the registry
+  iat?: number;
+  exp: number;
+}
+
+function getSecret(): string {
+  return process.env.JWT_SECRET || process.env.SESSION_SECRET!; // Support both for backward compat
+}
+
+/**
+ * A short label for the device behind a user agent
+ */
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1] || 'Browser';
+  const os =
+    [
+      ['iPhone', 'iOS'],
+      ['iPad', 'iPadOS'],
+      ['Android', 'Android'],
+      ['Mac OS X', 'macOS'],
+      ['Windows', 'Windows'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1] || 'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Register a new session; returns the Set-Cookie value for it
+ */
+export async function createSession(
+  spotifyId: string,
+  userAgent: string | undefined
+): Promise<string> {
+  const now = Date.now();
+  const session = await saveSessionRecord({
+    id: randomBytes(16).toString('base64url'),
+    spotifyId,
+    device: describeDevice(userAgent),
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + SESSION_TTL_SECONDS * 1000,
+  });
+
+  const token = jwt.sign(
+    {
+      spotifyId,
+      sid: session.id,
+      exp: Math.floor(session.expiresAt / 1000),
+    },
+    getSecret()
+  );
+
+  return serialize(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: true, // Always secure on Netlify
+    sameSite: 'lax',
+    maxAge: SESSION_TTL_SECONDS,
+    path: '/',
+  });
+}
+
+/**
+ * Set-Cookie value removing the session cookie
+ */
+export function clearSessionCookie(): string {
+  return serialize(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/',
+  });
+}
+
+/**
+ * Verify the session JWT in a cookie header; null when missing or invalid
+ *
+ * This only checks the signature - use resolveSession to check the session
+ * hasn't been revoked.
+ */
+export function readSessionToken(
+  cookieHeader: string | undefined
+): SessionPayload | null {
+  const token = parse(cookieHeader || '')[SESSION_COOKIE];
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(token, getSecret()) as SessionPayload;
+    return payload.spotifyId ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The stored session for a verified token; null once revoked or expired
+ *
+ * Tokens issued before the registry have no sid. They stay valid until they
+ * expire (so deploying the registry didn't sign everyone out) unless they
+ * were issued before the user's sessionsRevokedBefore, which logging out or
+ * signing out other sessions sets (see revokeLegacySessions).
+ */
+export async function resolveSession(
+  payload: SessionPayload
+): Promise<SessionRecord | null> {
+  if (!payload.sid) {
+    const user = await getUser(payload.spotifyId);
+    if (
+      !user ||
+      payload.iat === undefined ||
+      payload.iat * 1000 <= (user.sessionsRevokedBefore ?? 0)
+    ) {
+      return null;
+    }
+
+    const now = Date.now();
+    return {
+      id: LEGACY_SESSION_ID,
+      spotifyId: payload.spotifyId,
+      device: 'Unknown device',
+      createdAt: (payload.iat ?? payload.exp) * 1000,
+      lastSeenAt: now,
+      expiresAt: payload.exp * 1000,
+    };
+  }
+
+  const session = await getSessionRecord(payload.spotifyId, payload.sid);
+  const now = Date.now();
+  if (!session || session.expiresAt <= now) return null;
+
+  if (now - session.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+    return saveSessionRecord({ ...session, lastSeenAt: now });
+  }
+  return session;
+}
+
+/**
+ * Revoke one of the user's sessions; false when it didn't exist
+ */
+export async function revokeSession(
+  spotifyId: string,
+  sessionId: string
+): Promise<boolean> {
+  const session = await getSessionRecord(spotifyId, sessionId);
+  if (!session) return false;
+  await deleteSessionRecord(spotifyId, sessionId);
+  return true;
+}
+
+/**
+ * End every token without a sid the user was issued so far
+ */
+export async function revokeLegacySessions(spotifyId: string): Promise<void> {
+  await updateUser(spotifyId, { sessionsRevokedBefore: Date.now() });
+}
+
+/**
+ * Revoke every session but the given one, including any tokens without a
+ * sid; returns how many stored sessions were revoked
+ */
+export async function revokeOtherSessions(
+  spotifyId: string,
+  keepSessionId: string
+): Promise<number> {
+  await revokeLegacySessions(spotifyId);
+
+  const others = (await listSessionRecords(spotifyId)).filter(
+    (session) => session.id !== keepSessionId
+  );
+  for (const session of others) {
+    await deleteSessionRecord(spotifyId, session.id);
+  }
+  return others.length;
+}
+
+/**
+ * The user's unexpired sessions, most recently seen first
+ */
+export async function listActiveSessions(
+  spotifyId: string,
+  currentSessionId: string
+): Promise<SessionSummary[]> {
+  const now = Date.now();
+  const sessions = await listSessionRecords(spotifyId);
+  return sessions
+    .filter((session) => session.expiresAt > now)
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(({ id, device, createdAt, lastSeenAt }) => ({
+      id,
+      device,
+      createdAt,
+      lastSeenAt,
+      current: id === currentSessionId,
+    }));
+}
+
+/**
+ * Delete every expired session; returns how many were removed
+ */
+export async function sweepExpiredSessions(now = Date.now()): Promise<number> {
+  const expired = (await listSessionRecords()).filter(
+    (session) => session.expiresAt <= now
+  );
+  for (const session of expired) {
+    await deleteSessionRecord(session.spotifyId, session.id);
+  }
+  return expired.length;
+}
@@ -0,0 +1,72 @@
+/**
+ * Sessions endpoint - list and revoke the user's signed-in devices
+ *
+ * GET                  active sessions, most recently seen first
+ * DELETE ?id=...       revoke one session
+ * DELETE ?others=1     revoke every session but the current one
+ *
+ * Signing out other sessions from a token without a sid ends that token too,
+ * so the caller gets a registered session in its place.
+ */
+import { z } from 'zod';
+import { createHandler, HttpError, json, route } from './http';
+import {
+  clearSessionCookie,
+  createSession,
+  LEGACY_SESSION_ID,
+  listActiveSessions,
+  revokeOtherSessions,
+  revokeSession,
+} from './session-store';
+
+const revokeQuerySchema = z.object({
+  id: z.string().min(1).optional(),
+  others: z.literal('1').optional(),
+});
+
+export const handler = createHandler('sessions', {
+  GET: route({
+    errorMessage: 'Failed to list sessions',
+    handle: async ({ session }) => {
+      const sessions = await listActiveSessions(
+        session.spotifyId,
+        session.sessionId
+      );
+      return json({ sessions });
+    },
+  }),
+
+  DELETE: route({
+    query: revokeQuerySchema,
+    errorMessage: 'Failed to revoke session',
+    handle: async ({ event, session, query }) => {
+      const { spotifyId, sessionId } = session;
+
+      if (query.others) {
+        const revoked = await revokeOtherSessions(spotifyId, sessionId);
+        const cookies =
+          sessionId === LEGACY_SESSION_ID
+            ? [await createSession(spotifyId, event.headers['user-agent'])]
+            : [];
+        return json({ revoked }, 200, { cookies });
+      }
+
+      const { id } = query;
+      if (!id) {
+        throw new HttpError(
+          400,
+          'invalid_request',
+          'Missing id or others parameter'
+        );
+      }
+      if (!(await revokeSession(spotifyId, id))) {
+        throw new HttpError(404, 'session_not_found', 'Session not found');
+      }
+
+      // Revoking the current session is a logout
+      return json({ revoked: 1 }, 200, {
+        cookies: id === sessionId ? [clearSessionCookie()] : [],
+      });
+    },
+  }),
+});
@@ -0,0 +1,209 @@
+/**
+ * Spotify error taxonomy
+ *
+ * Every failed Spotify call surfaces as a SpotifyApiError with a reason that
+ * handlers can turn into an actionable message for the user.
+ */
+
+export type SpotifyErrorReason =
+  | 'unauthorized' // Access token rejected
+  | 'token_revoked' // Refresh token revoked or invalid - user must sign in again
+  | 'insufficient_scope' // Token lacks a scope the endpoint needs
+  | 'premium_required' // Endpoint needs Spotify Premium
+  | 'forbidden' // Any other 403
+  | 'not_found'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'server_error'
+  | 'network_error'
+  | 'unknown';
+
+/**
+ * Error body as returned by Spotify (Web API or accounts service)
+ */
+export interface SpotifyErrorBody {
+  error?:
+    | string
+    | {
+        status?: number;
+        message?: string;
+        reason?: string;
+      };
+  error_description?: string;
+}
+
+export class SpotifyApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly reason: SpotifyErrorReason;
+  readonly retryable: boolean;
+  readonly body?: SpotifyErrorBody;
+  readonly missingScopes?: string[]; // Set when we know which grant is missing
+
+  constructor(options: {
+    status: number;
+    endpoint: string;
+    reason: SpotifyErrorReason;
+    message?: string;
+    body?: SpotifyErrorBody;
+    missingScopes?: string[];
+  }) {
+    super(
+      options.message ||
+        `Spotify API error: ${options.status} ${options.reason} (${options.endpoint})`
+    );
+    this.name = 'SpotifyApiError';
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.reason = options.reason;
+    this.body = options.body;
+    this.missingScopes = options.missingScopes;
+    this.retryable = ['rate_limited', 'server_error', 'network_error'].includes(
+      options.reason
+    );
+  }
+}
+
+/**
+ * Type guard
+ */
+export function isSpotifyApiError(error: unknown): error is SpotifyApiError {
+  return error instanceof SpotifyApiError;
+}
+
+/**
+ * Spotify's own message from an error body, if any
+ */
+function bodyMessage(body?: SpotifyErrorBody): string {
+  if (!body) return '';
+  if (typeof body.error === 'string') {
+    return `${body.error} ${body.error_description || ''}`.trim();
+  }
+  return `${body.error?.reason || ''} ${body.error?.message || ''}`.trim();
+}
+
+/**
+ * Work out the reason for a failed response
+ */
+export function classifySpotifyError(
+  status: number,
+  body?: SpotifyErrorBody
+): SpotifyErrorReason {
+  const message = bodyMessage(body).toLowerCase();
+
+  // Accounts service: { error: 'invalid_grant', error_description: '...' }
+  if (typeof body?.error === 'string' && body.error === 'invalid_grant') {
+    return 'token_revoked';
+  }
+
+  if (status === 401) {
+    return message.includes('revoked') ? 'token_revoked' : 'unauthorized';
+  }
+  if (status === 403) {
+    if (message.includes('premium')) return 'premium_required';
+    if (message.includes('scope')) return 'insufficient_scope';
+    return 'forbidden';
+  }
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+}
+
+/**
+ * Build a SpotifyApiError from a failed response
+ */
+export async function spotifyErrorFromResponse(
+  response: Response,
+  endpoint: string
+): Promise<SpotifyApiError> {
+  let body: SpotifyErrorBody | undefined;
+  try {
+    const text = await response.text();
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = undefined;
+  }
+
+  const reason = classifySpotifyError(response.status, body);
+  const detail = bodyMessage(body) || response.statusText;
+
+  return new SpotifyApiError({
+    status: response.status,
+    endpoint,
+    reason,
+    body,
+    message: `Spotify API error: ${response.status} ${detail} (${endpoint})`,
+  });
+}
+
+/**
+ * User-facing description of an error, with the HTTP status to answer with
+ */
+export function describeSpotifyError(
+  error: unknown,
+  fallbackMessage: string
+): { statusCode: number; message: string; reason?: SpotifyErrorReason } {
+  if (!isSpotifyApiError(error)) {
+    return { statusCode: 500, message: fallbackMessage };
+  }
+
+  switch (error.reason) {
+    case 'token_revoked':
+    case 'unauthorized':
+      return {
+        statusCode: 401,
+        reason: error.reason,
+        message:
+          'Your Spotify connection has expired or was revoked. Please sign in again.',
+      };
+    case 'insufficient_scope':
+      return {
+        statusCode: 403,
+        reason: error.reason,
+        message:
+          'Spotify did not grant the permission this needs. Please sign in again and approve access.',
+      };
+    case 'premium_required':
+      return {
+        statusCode: 403,
+        reason: error.reason,
+        message: 'This feature needs a Spotify Premium account.',
+      };
+    case 'forbidden':
+      return {
+        statusCode: 403,
+        reason: error.reason,
+        message: 'Spotify refused access to this resource.',
+      };
+    case 'not_found':
+      return {
+        statusCode: 404,
+        reason: error.reason,
+        message:
+          'Spotify could not find that item. It may be private or deleted.',
+      };
+    case 'rate_limited':
+      return {
+        statusCode: 503,
+        reason: error.reason,
+        message:
+          'Spotify is rate limiting us right now. Please try again in a minute.',
+      };
+    case 'server_error':
+    case 'network_error':
+      return {
+        statusCode: 502,
+        reason: error.reason,
+        message:
+          'Spotify is having trouble right now. Please try again in a few minutes.',
+      };
+    default:
+      return {
+        statusCode: 502,
+        reason: error.reason,
+        message: fallbackMessage,
+      };
+  }
+}
@@ -0,0 +1,565 @@
+/**
+ * Offline Spotify stand-in - deterministic fixture catalog plus a fake API
+ *
+ * The catalog (artists, albums, tracks, audio features) is generated from a
+ * fixed seed, so every run sees the same IDs and numbers. Playlists created
+ * during a run live in memory on the stand-in instance.
+ */
+import type {
+  SpotifyArtist,
+  SpotifyAudioFeatures,
+  SpotifyPlaylist,
+  SpotifyTrack,
+  SpotifyUser,
+} from '../src/types';
+import type { SpotifyTransport } from './spotify-transport';
+import { createRandom } from './math-utils';
+
+export interface FixtureCatalog {
+  user: SpotifyUser;
+  artists: SpotifyArtist[];
+  tracks: SpotifyTrack[];
+  audioFeatures: Map<string, SpotifyAudioFeatures>;
+}
+
+interface FixturePlaylist extends SpotifyPlaylist {
+  entries: Array<{ uri: string; addedAt: string }>;
+  snapshotId: number;
+}
+
+const FIXTURE_GENRES = [
+  ['ambient', 'drone'],
+  ['indie folk', 'chamber pop'],
+  ['japanese city pop', 'funk'],
+  ['shoegaze', 'dream pop'],
+  ['jazz', 'spiritual jazz'],
+  ['neo-classical', 'minimalism'],
+  ['lo-fi house', 'deep house'],
+  ['post-rock', 'slowcore'],
+];
+
+const NAME_WORDS = [
+  'Velvet',
+  'Harbor',
+  'Cedar',
+  'Neon',
+  'Amber',
+  'Glass',
+  'Dusk',
+  'Lantern',
+  'Winter',
+  'Signal',
+  'Moss',
+  'Tide',
+  'Ember',
+  'Paper',
+  'Static',
+  'Orchard',
+];
+
+/**
+ * Fixed-width fake Spotify ID (22 chars like the real ones)
+ */
+function fixtureId(kind: string, n: number): string {
+  return `${kind}${n.toString().padStart(22 - kind.length, '0')}`;
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function round(value: number, digits = 3): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Build the deterministic fixture catalog
+ */
+export function buildFixtureCatalog(seed = 1): FixtureCatalog {
+  const random = createRandom(seed);
+  const artists: SpotifyArtist[] = [];
+  const tracks: SpotifyTrack[] = [];
+  const audioFeatures = new Map<string, SpotifyAudioFeatures>();
+
+  for (let a = 0; a < 24; a++) {
+    const genres = FIXTURE_GENRES[a % FIXTURE_GENRES.length];
+    const artist: SpotifyArtist = {
+      id: fixtureId('artist', a + 1),
+      name: `${pick(random, NAME_WORDS)} ${pick(random, NAME_WORDS)}`,
+      genres,
+      popularity: Math.floor(20 + random() * 70),
+      images: [],
+    };
+    artists.push(artist);
+
+    for (let al = 0; al < 3; al++) {
+      const albumNumber = a * 3 + al + 1;
+      const year = 1975 + Math.floor(random() * 50);
+      const album = {
+        id: fixtureId('album', albumNumber),
+        name: `${pick(random, NAME_WORDS)} ${pick(random, NAME_WORDS)}`,
+        release_date: `${year}-01-01`,
+        images: [],
+      };
+
+      for (let t = 0; t < 8; t++) {
+        const id = fixtureId('track', tracks.length + 1);
+        tracks.push({
+          id,
+          name: `${pick(random, NAME_WORDS)} ${pick(random, NAME_WORDS)}`,
+          uri: `spotify:track:${id}`,
+          artists: [{ id: artist.id, name: artist.name }],
+          artistId: artist.id,
+          album,
+          duration_ms: Math.floor(150000 + random() * 240000),
+          popularity: Math.floor(random() * 100),
+          preview_url: null,
+          releaseDate: album.release_date,
+        });
+
+        audioFeatures.set(id, {
+          id,
+          danceability: round(random()),
+          energy: round(random()),
+          key: Math.floor(random() * 12),
+          loudness: round(-30 + random() * 28, 2),
+          mode: random() > 0.5 ? 1 : 0,
+          speechiness: round(random() * 0.3),
+          acousticness: round(random()),
+          instrumentalness: round(random()),
+          liveness: round(random() * 0.5),
+          valence: round(random()),
+          tempo: round(60 + random() * 110, 1),
+          duration_ms: 0,
+          time_signature: 4,
+        });
+      }
+    }
+  }
+
+  return {
+    user: {
+      id: 'fixture-user',
+      display_name: 'Fixture User',
+      email: 'fixture-user@example.com',
+      country: 'JP',
+      images: [],
+      product: 'premium',
+    },
+    artists,
+    tracks,
+    audioFeatures,
+  };
+}
+
+/**
+ * Create an in-process fake Spotify API as a transport
+ */
+export function createSpotifyStandIn(
+  catalog: FixtureCatalog = buildFixtureCatalog()
+): SpotifyTransport {
+  const tracksById = new Map(catalog.tracks.map((t) => [t.id, t]));
+  const tracksByUri = new Map(catalog.tracks.map((t) => [t.uri, t]));
+  const artistsById = new Map(catalog.artists.map((a) => [a.id, a]));
+  const playlists = new Map<string, FixturePlaylist>();
+
+  const toPlaylist = (
+    p: FixturePlaylist
+  ): SpotifyPlaylist & {
+    snapshot_id: string;
+  } => ({
+    id: p.id,
+    name: p.name,
+    description: p.description,
+    images: p.images,
+    tracks: { total: p.entries.length, items: [] },
+    owner: p.owner,
+    snapshot_id: `snapshot-${p.snapshotId}`,
+  });
+
+  // Every 11th track is unavailable in whatever market is asked about
+  const restricted = new Set(
+    catalog.tracks.filter((_, i) => i % 11 === 10).map((t) => t.id)
+  );
+  const inMarket = <T extends { id: string }>(url: URL, track: T | null) => {
+    if (!track || !url.searchParams.get('market')) return track;
+    return restricted.has(track.id)
+      ? { ...track, is_playable: false, restrictions: { reason: 'market' } }
+      : { ...track, is_playable: true };
+  };
+
+  const ids = (url: URL) =>
+    (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+
+  const page = <T>(url: URL, items: T[], defaultLimit: number) => {
+    const limit =
+      parseInt(url.searchParams.get('limit') || '', 10) || defaultLimit;
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+    const next =
+      offset + limit < items.length
+        ? (() => {
+            const nextUrl = new URL(url.toString());
+            nextUrl.searchParams.set('offset', String(offset + limit));
+            nextUrl.searchParams.set('limit', String(limit));
+            return nextUrl.toString();
+          })()
+        : null;
+    return {
+      items: items.slice(offset, offset + limit),
+      total: items.length,
+      next,
+    };
+  };
+
+  const route = (method: string, url: URL, body: unknown): Response => {
+    const p = url.pathname.replace(/^\/v1/, '');
+    let match: RegExpMatchArray | null;
+
+    if (method === 'POST' && p === '/api/token') {
+      return json({
+        access_token: `standin-access-${Date.now()}`,
+        token_type: 'Bearer',
+        expires_in: 3600,
+        refresh_token: 'standin-refresh-token',
+        scope: '',
+      });
+    }
+
+    if (method === 'GET' && p === '/me') return json(catalog.user);
+
+    if (method === 'GET' && p === '/me/top/tracks') {
+      const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+      return json({
+        items: catalog.tracks.filter((_, i) => i % 5 === 0).slice(0, limit),
+      });
+    }
+
+    if (method === 'GET' && p === '/me/top/artists') {
+      const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+      return json({ items: catalog.artists.slice(0, limit) });
+    }
+
+    if (method === 'GET' && p === '/me/player/recently-played') {
+      const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+      return json({
+        items: catalog.tracks
+          .filter((_, i) => i % 7 === 0)
+          .slice(0, limit)
+          .map((track) => ({ track })),
+      });
+    }
+
+    if (method === 'GET' && p === '/me/tracks') {
+      const saved = catalog.tracks
+        .filter((_, i) => i % 3 === 0)
+        .map((track) => ({ added_at: '2024-01-01T00:00:00Z', track }));
+      return json(page(url, saved, 20));
+    }
+
+    if (method === 'GET' && p === '/me/albums') {
+      const albums = new Map<string, SpotifyTrack[]>();
+      for (const track of catalog.tracks) {
+        albums.set(track.album.id, [
+          ...(albums.get(track.album.id) || []),
+          track,
+        ]);
+      }
+      const saved = [...albums.values()]
+        .filter((_, i) => i % 4 === 0)
+        .map((albumTracks) => ({
+          added_at: '2024-01-01T00:00:00Z',
+          album: {
+            ...albumTracks[0].album,
+            artists: albumTracks[0].artists,
+            tracks: {
+              total: albumTracks.length,
+              items: albumTracks.map(({ album: _album, ...track }) =>
+                inMarket(url, track)
+              ),
+            },
+          },
+        }));
+      return json(page(url, saved, 20));
+    }
+
+    if (method === 'GET' && p === '/me/following') {
+      const followed = page(
+        url,
+        catalog.artists.filter((_, i) => i % 2 === 0),
+        20
+      );
+      return json({ artists: followed });
+    }
+
+    if (
+      method === 'GET' &&
+      (match = p.match(/^\/artists\/([^/]+)\/top-tracks$/))
+    ) {
+      // Like Spotify, top tracks need a market
+      if (!url.searchParams.get('market')) {
+        return json(
+          { error: { status: 400, message: 'Missing market parameter' } },
+          400
+        );
+      }
+      const artistId = match[1];
+      return json({
+        tracks: catalog.tracks
+          .filter((t) => t.artistId === artistId)
+          .slice(0, 10)
+          .map((track) => inMarket(url, track)),
+      });
+    }
+
+    if (method === 'GET' && (match = p.match(/^\/artists\/([^/]+)\/albums$/))) {
+      const artistId = match[1];
+      const albumIds = [
+        ...new Set(
+          catalog.tracks
+            .filter((t) => t.artistId === artistId)
+            .map((t) => t.album.id)
+        ),
+      ];
+      return json(
+        page(
+          url,
+          albumIds.map((id) => ({ id })),
+          20
+        )
+      );
+    }
+
+    if (method === 'GET' && p === '/albums') {
+      const albums = ids(url).map((albumId) => {
+        const albumTracks = catalog.tracks.filter(
+          (t) => t.album.id === albumId
+        );
+        if (albumTracks.length === 0) return null;
+        return {
+          ...albumTracks[0].album,
+          artists: albumTracks[0].artists,
+          tracks: {
+            total: albumTracks.length,
+            items: albumTracks.map(({ album: _album, ...track }) =>
+              inMarket(url, track)
+            ),
+          },
+        };
+      });
+      return json({ albums });
+    }
+
+    if (method === 'GET' && p === '/tracks') {
+      return json({
+        tracks: ids(url).map((id) => inMarket(url, tracksById.get(id) || null)),
+      });
+    }
+
+    if (method === 'GET' && p === '/audio-features') {
+      return json({
+        audio_features: ids(url).map(
+          (id) => catalog.audioFeatures.get(id) || null
+        ),
+      });
+    }
+
+    if (method === 'GET' && p === '/artists') {
+      return json({
+        artists: ids(url).map((id) => artistsById.get(id) || null),
+      });
+    }
+
+    if (method === 'GET' && p === '/recommendations') {
+      const seeds = new Set(
+        (url.searchParams.get('seed_tracks') || '').split(',').filter(Boolean)
+      );
+      const seedArtists = new Set(
+        [...seeds].map((id) => tracksById.get(id)?.artistId).filter(Boolean)
+      );
+      const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+      const related = catalog.tracks.filter(
+        (t) => !seeds.has(t.id) && !seedArtists.has(t.artistId)
+      );
+      const offset = [...seeds].join('').length % Math.max(1, related.length);
+      return json({
+        tracks: [...related.slice(offset), ...related.slice(0, offset)]
+          .slice(0, limit)
+          .map((track) => inMarket(url, track)),
+      });
+    }
+
+    if (method === 'GET' && p === '/search') {
+      const query = (url.searchParams.get('q') || '')
+        .replace(/genre:|"/g, '')
+        .toLowerCase();
+      const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+
+      if (url.searchParams.get('type') === 'playlist') {
+        const found = [...playlists.values()]
+          .filter((pl) => pl.name.toLowerCase().includes(query))
+          .map(toPlaylist);
+        return json({ playlists: { items: found.slice(0, limit) } });
+      }
+
+      const items = catalog.tracks.filter((t) => {
+        const artist = artistsById.get(t.artistId || '');
+        const haystack = [
+          t.name,
+          t.album.name,
+          artist?.name,
+          ...(artist?.genres || []),
+        ]
+          .join(' ')
+          .toLowerCase();
+        return query
+          .split(/\s+/)
+          .some((word) => word && haystack.includes(word));
+      });
+      return json({
+        tracks: {
+          items: items.slice(0, limit).map((track) => inMarket(url, track)),
+          total: items.length,
+        },
+      });
+    }
+
+    if (method === 'GET' && p === '/me/playlists') {
+      return json(page(url, [...playlists.values()].map(toPlaylist), 50));
+    }
+
+    if (
+      method === 'POST' &&
+      (match = p.match(/^\/users\/([^/]+)\/playlists$/))
+    ) {
+      const { name, description } = body as {
+        name: string;
+        description: string;
+      };
+      const id = fixtureId('playlist', playlists.size + 1);
+      const playlist: FixturePlaylist = {
+        id,
+        name,
+        description: description || null,
+        images: [],
+        tracks: { total: 0, items: [] },
+        owner: { id: match[1], display_name: catalog.user.display_name },
+        entries: [],
+        snapshotId: 1,
+      };
+      playlists.set(id, playlist);
+      return json(toPlaylist(playlist), 201);
+    }
+
+    if (
+      (match = p.match(
+        /^\/playlists\/([^/]+)(\/tracks|\/images|\/followers)?$/
+      ))
+    ) {
+      const playlist = playlists.get(match[1]);
+      if (!playlist)
+        return json({ error: { status: 404, message: 'Not found.' } }, 404);
+      const sub = match[2] || '';
+
+      if (method === 'GET' && sub === '') return json(toPlaylist(playlist));
+
+      if (method === 'GET' && sub === '/tracks') {
+        const items = playlist.entries.map(({ uri, addedAt }) => ({
+          added_at: addedAt,
+          track: inMarket(url, tracksByUri.get(uri) || null),
+        }));
+        return json(page(url, items, 100));
+      }
+
+      if (sub === '/tracks' && ['PUT', 'POST', 'DELETE'].includes(method)) {
+        const request = (body || {}) as {
+          uris?: string[];
+          position?: number;
+          range_start?: number;
+          insert_before?: number;
+          range_length?: number;
+          snapshot_id?: string;
+          tracks?: Array<{ uri: string; positions?: number[] }>;
+        };
+        const current = `snapshot-${playlist.snapshotId}`;
+        if (request.snapshot_id && request.snapshot_id !== current) {
+          // The real API rebases onto newer snapshots; the stand-in refuses
+          return json(
+            { error: { status: 400, message: 'Invalid snapshot id.' } },
+            400
+          );
+        }
+
+        const addedAt = new Date().toISOString();
+        const toEntries = (uris: string[] = []) =>
+          uris.map((uri) => ({ uri, addedAt }));
+
+        if (method === 'DELETE') {
+          const drop = new Set<number>();
+          for (const { uri, positions } of request.tracks || []) {
+            playlist.entries.forEach((entry, i) => {
+              if (entry.uri === uri && (!positions || positions.includes(i)))
+                drop.add(i);
+            });
+          }
+          playlist.entries = playlist.entries.filter((_, i) => !drop.has(i));
+        } else if (method === 'PUT' && request.range_start !== undefined) {
+          const start = request.range_start;
+          const length = request.range_length || 1;
+          const before = request.insert_before ?? playlist.entries.length;
+          const moved = playlist.entries.splice(start, length);
+          playlist.entries.splice(
+            before > start ? before - length : before,
+            0,
+            ...moved
+          );
+        } else if (method === 'PUT') {
+          playlist.entries = toEntries(request.uris);
+        } else {
+          const position = request.position ?? playlist.entries.length;
+          playlist.entries.splice(position, 0, ...toEntries(request.uris));
+        }
+
+        playlist.snapshotId++;
+        return json(
+          { snapshot_id: `snapshot-${playlist.snapshotId}` },
+          method === 'POST' ? 201 : 200
+        );
+      }
+
+      if (method === 'PUT' && sub === '/images')
+        return new Response(null, { status: 202 });
+
+      if (method === 'DELETE' && sub === '/followers') {
+        playlists.delete(playlist.id);
+        return new Response(null, { status: 200 });
+      }
+    }
+
+    return json(
+      {
+        error: {
+          status: 404,
+          message: `Stand-in has no route for ${method} ${p}`,
+        },
+      },
+      404
+    );
+  };
+
+  return async (url, init) => {
+    const method = (init.method || 'GET').toUpperCase();
+    let body: unknown = undefined;
+    if (typeof init.body === 'string' && init.body.startsWith('{')) {
+      body = JSON.parse(init.body);
+    }
+    return route(method, new URL(url), body);
+  };
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
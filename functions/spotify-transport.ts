@@ -0,0 +1,195 @@
+/**
+ * Pluggable HTTP transport for Spotify API and accounts calls
+ *
+ * Modes (SPOTIFY_TRANSPORT):
+ * - live (default): real fetch against Spotify
+ * - standin: in-process fake Spotify backed by the fixture library
+ * - record: live fetch, saving every response to SPOTIFY_FIXTURES_DIR
+ * - replay: serve previously recorded responses, never touching the network
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createSpotifyStandIn } from './spotify-fixtures';
+
+export type SpotifyTransport = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+export type SpotifyTransportMode = 'live' | 'standin' | 'record' | 'replay';
+
+interface RecordedResponse {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/spotify';
+
+let activeTransport: SpotifyTransport | null = null;
+
+/**
+ * Live transport - plain fetch
+ */
+export const liveTransport: SpotifyTransport = (url, init) => fetch(url, init);
+
+/**
+ * Override the transport (e.g. from tests); pass null to go back to env config
+ */
+export function setSpotifyTransport(transport: SpotifyTransport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Get the transport for the current process
+ */
+export function getSpotifyTransport(): SpotifyTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportForMode(getTransportMode());
+  }
+  return activeTransport;
+}
+
+/**
+ * Read the configured transport mode
+ */
+export function getTransportMode(): SpotifyTransportMode {
+  const mode = process.env.SPOTIFY_TRANSPORT || 'live';
+  if (!['live', 'standin', 'record', 'replay'].includes(mode)) {
+    throw new Error(`Unknown SPOTIFY_TRANSPORT "${mode}"`);
+  }
+  return mode as SpotifyTransportMode;
+}
+
+/**
+ * Build a transport for the given mode
+ */
+export function createTransportForMode(
+  mode: SpotifyTransportMode,
+  fixturesDir = process.env.SPOTIFY_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+): SpotifyTransport {
+  switch (mode) {
+    case 'standin':
+      return createSpotifyStandIn();
+    case 'record':
+      return createRecordingTransport(liveTransport, fixturesDir);
+    case 'replay':
+      return createReplayTransport(fixturesDir);
+    default:
+      return liveTransport;
+  }
+}
+
+/**
+ * Wrap a transport so every response is saved as a fixture
+ */
+export function createRecordingTransport(
+  inner: SpotifyTransport,
+  fixturesDir: string
+): SpotifyTransport {
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const body = await response.text();
+
+    const recorded: RecordedResponse = {
+      method: getMethod(init),
+      url: stripHost(url),
+      status: response.status,
+      headers: pickHeaders(response.headers),
+      body: isTokenEndpoint(url) ? redactTokens(body) : body,
+    };
+
+    mkdirSync(fixturesDir, { recursive: true });
+    writeFileSync(
+      path.join(fixturesDir, `${fixtureKey(url, init)}.json`),
+      JSON.stringify(recorded, null, 2)
+    );
+
+    return new Response(body || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+/**
+ * Serve recorded fixtures; unknown requests fail loudly
+ */
+export function createReplayTransport(fixturesDir: string): SpotifyTransport {
+  return async (url, init) => {
+    const file = path.join(fixturesDir, `${fixtureKey(url, init)}.json`);
+
+    if (!existsSync(file)) {
+      throw new Error(
+        `No recorded Spotify fixture for ${getMethod(init)} ${stripHost(url)}`
+      );
+    }
+
+    const recorded = JSON.parse(readFileSync(file, 'utf8')) as RecordedResponse;
+    return new Response(recorded.body || null, {
+      status: recorded.status,
+      headers: recorded.headers,
+    });
+  };
+}
+
+/**
+ * Stable fixture key for a request
+ *
+ * Token requests ignore the body, since it carries codes and refresh tokens
+ * that differ between recording and replay.
+ */
+function fixtureKey(url: string, init: RequestInit): string {
+  const method = getMethod(init);
+  const body =
+    !isTokenEndpoint(url) && typeof init.body === 'string' ? init.body : '';
+  const hash = createHash('sha256')
+    .update(`${method} ${stripHost(url)}\n${body}`)
+    .digest('hex')
+    .slice(0, 16);
+  const slug = new URL(url).pathname
+    .replace(/^\/(v1|api)\//, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .slice(0, 48);
+  return `${method.toLowerCase()}-${slug}-${hash}`;
+}
+
+function getMethod(init: RequestInit): string {
+  return (init.method || 'GET').toUpperCase();
+}
+
+function stripHost(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+function isTokenEndpoint(url: string): boolean {
+  return new URL(url).pathname === '/api/token';
+}
+
+function pickHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of ['content-type', 'retry-after']) {
+    const value = headers.get(name);
+    if (value) picked[name] = value;
+  }
+  return picked;
+}
+
+/**
+ * Never write real credentials into fixtures
+ */
+function redactTokens(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed.access_token) parsed.access_token = 'recorded-access-token';
+    if (parsed.refresh_token) parsed.refresh_token = 'recorded-refresh-token';
+    return JSON.stringify(parsed);
+  } catch {
+    return body;
+  }
+}
@@ -1,5 +1,7 @@
 /**
  * Spotify API client with token refresh and rate limiting
+ *
+ * Rate limiting lives in rate-limiter.ts and is shared across instances.
  */
 import type {
   SpotifyAuthTokens,
@@ -8,57 +10,34 @@ import type {
   SpotifyAudioFeatures,
   SpotifyArtist,
   SpotifyPlaylist,
+  SpotifySavedAlbum,
+  FeatureCoverage,
 } from '../src/types';
-import { getUserKV, setUserKV } from './storage';
-
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
-const SPOTIFY_ACCOUNTS_BASE = 'https://accounts.spotify.com';
-
-// Rate limiting: ~180 requests/min, we'll be conservative at 150/min
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 150;
-
-let requestCount = 0;
-let windowStart = Date.now();
-
-/**
- * Sleep helper for rate limiting
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import { getUser, updateUser } from './repository';
+import { decryptToken, encryptToken } from './token-crypto';
+import { FEATURE_SCOPES, getMissingScopes, parseScopes } from './scopes';
+import { getSpotifyTransport } from './spotify-transport';
+import { SpotifyApiError, spotifyErrorFromResponse } from './spotify-errors';
+import {
+  acquireRequestSlot,
+  backoffDelay,
+  reportRetryAfter,
+  sleep,
+} from './rate-limiter';
+
+// Overridable so a local stand-in server can be used instead of Spotify
+const SPOTIFY_API_BASE =
+  process.env.SPOTIFY_API_BASE || 'https://api.spotify.com/v1';
+const SPOTIFY_ACCOUNTS_BASE =
+  process.env.SPOTIFY_ACCOUNTS_BASE || 'https://accounts.spotify.com';
 
 /**
- * Check and enforce rate limits
+ * POST to the accounts token endpoint
  */
-async function enforceRateLimit(): Promise<void> {
-  const now = Date.now();
-  
-  // Reset window if needed
-  if (now - windowStart > RATE_LIMIT_WINDOW) {
-    requestCount = 0;
-    windowStart = now;
-  }
-  
-  // If we're at the limit, wait
-  if (requestCount >= MAX_REQUESTS_PER_WINDOW) {
-    const waitTime = RATE_LIMIT_WINDOW - (now - windowStart);
-    console.log(`Rate limit reached, waiting ${waitTime}ms`);
-    await sleep(waitTime);
-    requestCount = 0;
-    windowStart = Date.now();
-  }
-  
-  requestCount++;
-}
-
-/**
- * Exchange authorization code for tokens
- */
-export async function exchangeCodeForTokens(
-  code: string
-): Promise<SpotifyAuthTokens> {
-  const response = await fetch(`${SPOTIFY_ACCOUNTS_BASE}/api/token`, {
+async function requestTokens(
+  params: Record<string, string>
+): Promise<Response> {
+  return getSpotifyTransport()(`${SPOTIFY_ACCOUNTS_BASE}/api/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -66,15 +45,26 @@ export async function exchangeCodeForTokens(
         `${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`
       ).toString('base64')}`,
     },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: process.env.SPOTIFY_REDIRECT_URI!,
-    }),
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+/**
+ * Exchange authorization code for tokens, proving the PKCE verifier
+ */
+export async function exchangeCodeForTokens(
+  code: string,
+  codeVerifier: string
+): Promise<SpotifyAuthTokens> {
+  const response = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: process.env.SPOTIFY_REDIRECT_URI!,
+    code_verifier: codeVerifier,
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to exchange code: ${response.statusText}`);
+    throw await spotifyErrorFromResponse(response, '/api/token');
   }
 
   return response.json();
@@ -86,75 +76,191 @@ export async function exchangeCodeForTokens(
 export async function refreshAccessToken(
   refreshToken: string
 ): Promise<SpotifyAuthTokens> {
-  const response = await fetch(`${SPOTIFY_ACCOUNTS_BASE}/api/token`, {
-    method: 'POST',
+  const response = await requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+
+  if (!response.ok) {
+    throw await spotifyErrorFromResponse(response, '/api/token');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch the profile for a fresh access token (used during login, before
+ * the user has a stored record)
+ */
+export async function getProfileWithToken(
+  accessToken: string
+): Promise<SpotifyUser> {
+  const response = await getSpotifyTransport()(`${SPOTIFY_API_BASE}/me`, {
     headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Authorization: `Basic ${Buffer.from(
-        `${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`
-      ).toString('base64')}`,
+      Authorization: `Bearer ${accessToken}`,
     },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-    }),
   });
 
   if (!response.ok) {
-    throw new Error(`Failed to refresh token: ${response.statusText}`);
+    throw await spotifyErrorFromResponse(response, '/me');
   }
 
   return response.json();
 }
 
+// Refresh access tokens this long before Spotify says they expire
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000; // 5 minutes
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Per-instance token cache, backed by the token stored on UserData
+const tokenCache = new Map<string, CachedToken>();
+
+// In-flight refreshes, so concurrent requests for a user share one refresh
+const pendingRefreshes = new Map<string, Promise<string>>();
+
 /**
- * Get valid access token for user (refresh if needed)
+ * Check whether a cached token is still usable
  */
-async function getValidAccessToken(spotifyId: string): Promise<string> {
-  const user = await getUserKV(spotifyId);
+function isTokenFresh(token: CachedToken | undefined): token is CachedToken {
+  return !!token && token.expiresAt - TOKEN_REFRESH_MARGIN > Date.now();
+}
+
+/**
+ * Refresh the user's access token and persist it alongside their UserData
+ */
+async function refreshAndStoreToken(spotifyId: string): Promise<string> {
+  const user = await getUser(spotifyId);
   if (!user) {
     throw new Error('User not found');
   }
 
-  // For simplicity, always refresh (in production, cache with expiry)
-  const tokens = await refreshAccessToken(user.refreshToken);
-  
-  // Update refresh token if it changed
-  if (tokens.refresh_token && tokens.refresh_token !== user.refreshToken) {
-    user.refreshToken = tokens.refresh_token;
-    await setUserKV(spotifyId, user);
-  }
+  const tokens = await refreshAccessToken(
+    decryptToken(user.refreshToken, spotifyId)
+  );
+  const expiresAt = Date.now() + tokens.expires_in * 1000;
+
+  await updateUser(spotifyId, {
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: expiresAt,
+    // Spotify may rotate the refresh token
+    refreshToken: tokens.refresh_token
+      ? encryptToken(tokens.refresh_token, spotifyId)
+      : user.refreshToken,
+    grantedScopes: tokens.scope
+      ? parseScopes(tokens.scope)
+      : user.grantedScopes,
+  });
+  tokenCache.set(spotifyId, { accessToken: tokens.access_token, expiresAt });
 
   return tokens.access_token;
 }
 
+/**
+ * Get valid access token for user (refresh if needed)
+ *
+ * Checks the in-memory cache, then the token stored on UserData, and only
+ * refreshes when the token is missing or about to expire.
+ */
+async function getValidAccessToken(
+  spotifyId: string,
+  forceRefresh = false
+): Promise<string> {
+  if (!forceRefresh) {
+    const cached = tokenCache.get(spotifyId);
+    if (isTokenFresh(cached)) {
+      return cached.accessToken;
+    }
+  }
+
+  const pending = pendingRefreshes.get(spotifyId);
+  if (pending) {
+    return pending;
+  }
+
+  if (!forceRefresh) {
+    const user = await getUser(spotifyId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const stored = user.accessToken && user.accessTokenExpiresAt
+      ? { accessToken: user.accessToken, expiresAt: user.accessTokenExpiresAt }
+      : undefined;
+    if (isTokenFresh(stored)) {
+      tokenCache.set(spotifyId, stored);
+      return stored.accessToken;
+    }
+  }
+
+  // Another request may have started a refresh while we read the user
+  const started = pendingRefreshes.get(spotifyId);
+  if (started) {
+    return started;
+  }
+
+  tokenCache.delete(spotifyId);
+  const refresh = refreshAndStoreToken(spotifyId).finally(() => {
+    pendingRefreshes.delete(spotifyId);
+  });
+  pendingRefreshes.set(spotifyId, refresh);
+
+  return refresh;
+}
+
 /**
  * Make a Spotify API request with retry and rate limiting
+ *
+ * 429s honour Retry-After (shared with other instances); 5xx responses and
+ * network errors are retried with jittered exponential backoff.
  */
 async function spotifyRequest<T>(
   endpoint: string,
   spotifyId: string,
   options: RequestInit = {}
 ): Promise<T> {
-  await enforceRateLimit();
-
-  const accessToken = await getValidAccessToken(spotifyId);
+  let accessToken = await getValidAccessToken(spotifyId);
   const url = endpoint.startsWith('http')
     ? endpoint
     : `${SPOTIFY_API_BASE}${endpoint}`;
-
-  let retries = 0;
-  const maxRetries = 3;
-
-  while (retries < maxRetries) {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
+  // Path without query string, for error reporting
+  const endpointPath = new URL(url).pathname.replace(/^\/v1/, '');
+
+  let attempt = 0;
+  const maxRetries = 4;
+  let tokenRetried = false;
+
+  while (attempt <= maxRetries) {
+    await acquireRequestSlot(spotifyId);
+
+    let response: Response;
+    try {
+      response = await getSpotifyTransport()(url, {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      });
+    } catch (error) {
+      // Network error - back off and retry
+      if (attempt >= maxRetries) {
+        throw new SpotifyApiError({
+          status: 0,
+          endpoint: endpointPath,
+          reason: 'network_error',
+          message: `Spotify request failed: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+      const delay = backoffDelay(attempt++);
+      console.log(`Spotify request failed (${error}), retrying in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
 
     // Handle rate limiting
     if (response.status === 429) {
@@ -163,21 +269,67 @@ async function spotifyRequest<T>(
         10
       );
       console.log(`Rate limited by Spotify, waiting ${retryAfter}s`);
-      await sleep(retryAfter * 1000);
-      retries++;
+      await reportRetryAfter(retryAfter);
+      attempt++;
+      continue;
+    }
+
+    // Token revoked or expired early - refresh once and retry
+    if (response.status === 401 && !tokenRetried) {
+      tokenRetried = true;
+      accessToken = await getValidAccessToken(spotifyId, true);
+      continue;
+    }
+
+    // Transient server error - back off and retry
+    if (response.status >= 500 && attempt < maxRetries) {
+      const delay = backoffDelay(attempt++);
+      console.log(`Spotify returned ${response.status}, retrying in ${delay}ms`);
+      await sleep(delay);
       continue;
     }
 
     if (!response.ok) {
-      throw new Error(
-        `Spotify API error: ${response.status} ${response.statusText}`
-      );
+      throw await spotifyErrorFromResponse(response, endpointPath);
     }
 
-    return response.json();
+    // Some endpoints (e.g. image upload) answer with an empty body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
   }
 
-  throw new Error('Max retries exceeded');
+  throw new SpotifyApiError({
+    status: 429,
+    endpoint: endpointPath,
+    reason: 'rate_limited',
+    message: `Max retries exceeded (${endpointPath})`,
+  });
+}
+
+/**
+ * Fail with insufficient_scope, naming the missing scopes, before calling an
+ * endpoint the user hasn't granted access to
+ */
+async function requireScopes(
+  spotifyId: string,
+  scopes: string[],
+  endpoint: string
+): Promise<void> {
+  const user = await getUser(spotifyId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const missingScopes = getMissingScopes(user.grantedScopes, scopes);
+  if (missingScopes.length > 0) {
+    throw new SpotifyApiError({
+      status: 403,
+      endpoint,
+      reason: 'insufficient_scope',
+      message: `Missing Spotify scopes for ${endpoint}: ${missingScopes.join(', ')}`,
+      missingScopes,
+    });
+  }
 }
 
 // ============================================================================
@@ -192,19 +344,38 @@ export async function getCurrentUser(spotifyId: string): Promise<SpotifyUser> {
 // Track Endpoints
 // ============================================================================
 
+/**
+ * Query string suffix for an optional market
+ *
+ * With a market, Spotify relinks tracks and reports is_playable for it.
+ */
+function marketParam(market?: string): string {
+  return market ? `&market=${encodeURIComponent(market)}` : '';
+}
+
+/**
+ * Whether a track can be played in the market it was fetched for
+ */
+export function isTrackPlayable(
+  track: Pick<SpotifyTrack, 'is_playable' | 'restrictions'>
+): boolean {
+  return track.is_playable !== false && !track.restrictions;
+}
+
 /**
  * Get multiple tracks (batched, max 50 per call)
  */
 export async function getTracks(
   trackIds: string[],
-  spotifyId: string
+  spotifyId: string,
+  market?: string
 ): Promise<SpotifyTrack[]> {
   const tracks: SpotifyTrack[] = [];
   
   for (let i = 0; i < trackIds.length; i += 50) {
     const batch = trackIds.slice(i, i + 50);
     const response = await spotifyRequest<{ tracks: SpotifyTrack[] }>(
-      `/tracks?ids=${batch.join(',')}`,
+      `/tracks?ids=${batch.join(',')}${marketParam(market)}`,
       spotifyId
     );
     tracks.push(...response.tracks);
@@ -214,25 +385,51 @@ export async function getTracks(
 }
 
 /**
- * Get audio features (batched, max 100 per call)
+ * Get audio features keyed by track ID (batched, max 100 per call)
+ *
+ * Tracks Spotify has no features for (local files, obscure or very new
+ * tracks) are simply absent from the map - never join features by index.
  */
 export async function getAudioFeatures(
   trackIds: string[],
   spotifyId: string
-): Promise<SpotifyAudioFeatures[]> {
-  const features: SpotifyAudioFeatures[] = [];
+): Promise<Map<string, SpotifyAudioFeatures>> {
+  const features = new Map<string, SpotifyAudioFeatures>();
   
   for (let i = 0; i < trackIds.length; i += 100) {
     const batch = trackIds.slice(i, i + 100);
     const response = await spotifyRequest<{
-      audio_features: SpotifyAudioFeatures[];
+      audio_features: Array<SpotifyAudioFeatures | null>;
     }>(`/audio-features?ids=${batch.join(',')}`, spotifyId);
-    features.push(...response.audio_features.filter(Boolean));
+
+    for (const feature of response.audio_features) {
+      if (feature && feature.id) {
+        features.set(feature.id, feature);
+      }
+    }
   }
   
   return features;
 }
 
+/**
+ * Summarize how many tracks have audio features
+ */
+export function summarizeFeatureCoverage(
+  trackIds: string[],
+  features: Map<string, SpotifyAudioFeatures>
+): FeatureCoverage {
+  const missingTrackIds = trackIds.filter((id) => !features.has(id));
+  const withFeatures = trackIds.length - missingTrackIds.length;
+
+  return {
+    total: trackIds.length,
+    withFeatures,
+    ratio: trackIds.length > 0 ? withFeatures / trackIds.length : 0,
+    missingTrackIds,
+  };
+}
+
 /**
  * Get user's top tracks
  */
@@ -261,6 +458,88 @@ export async function getRecentlyPlayed(
   return response.items.map((item) => item.track);
 }
 
+// ============================================================================
+// Library Endpoints
+// ============================================================================
+
+/**
+ * Get user's Liked Songs, most recently saved first (paginated)
+ */
+export async function getSavedTracks(
+  spotifyId: string,
+  maxTracks = 250
+): Promise<SpotifyTrack[]> {
+  await requireScopes(spotifyId, FEATURE_SCOPES['library-seeds'], '/me/tracks');
+
+  const tracks: SpotifyTrack[] = [];
+  let url = '/me/tracks?limit=50';
+
+  while (url && tracks.length < maxTracks) {
+    const response = await spotifyRequest<{
+      items: Array<{ added_at: string; track: SpotifyTrack }>;
+      next: string | null;
+    }>(url, spotifyId);
+
+    tracks.push(...response.items.map((item) => item.track));
+    url = response.next || '';
+  }
+
+  return tracks.slice(0, maxTracks);
+}
+
+/**
+ * Get user's saved albums (paginated)
+ */
+export async function getSavedAlbums(
+  spotifyId: string,
+  maxAlbums = 50
+): Promise<SpotifySavedAlbum[]> {
+  await requireScopes(spotifyId, FEATURE_SCOPES['library-seeds'], '/me/albums');
+
+  const albums: SpotifySavedAlbum[] = [];
+  let url = '/me/albums?limit=50';
+
+  while (url && albums.length < maxAlbums) {
+    const response = await spotifyRequest<{
+      items: Array<{ added_at: string; album: SpotifySavedAlbum }>;
+      next: string | null;
+    }>(url, spotifyId);
+
+    albums.push(...response.items.map((item) => item.album));
+    url = response.next || '';
+  }
+
+  return albums.slice(0, maxAlbums);
+}
+
+/**
+ * Get artists the user follows (cursor-paginated)
+ */
+export async function getFollowedArtists(
+  spotifyId: string,
+  maxArtists = 100
+): Promise<SpotifyArtist[]> {
+  await requireScopes(
+    spotifyId,
+    FEATURE_SCOPES['followed-artist-seeds'],
+    '/me/following'
+  );
+
+  const artists: SpotifyArtist[] = [];
+  let url = '/me/following?type=artist&limit=50';
+
+  while (url && artists.length < maxArtists) {
+    const response = await spotifyRequest<{
+      artists: { items: SpotifyArtist[]; next: string | null };
+    }>(url, spotifyId);
+
+    artists.push(...response.artists.items);
+    url = response.artists.next || '';
+  }
+
+  return artists.slice(0, maxArtists);
+}
+
 // ============================================================================
 // Artist Endpoints
 // ============================================================================
@@ -286,6 +565,74 @@ export async function getArtists(
   return artists;
 }
 
+/**
+ * Get an artist's top tracks in a market (Spotify requires one here;
+ * 'from_token' uses the user's own country)
+ */
+export async function getArtistTopTracks(
+  artistId: string,
+  spotifyId: string,
+  market: string
+): Promise<SpotifyTrack[]> {
+  const response = await spotifyRequest<{ tracks: SpotifyTrack[] }>(
+    `/artists/${artistId}/top-tracks?market=${encodeURIComponent(market)}`,
+    spotifyId
+  );
+  return response.tracks;
+}
+
+/**
+ * Get an artist's album and single IDs
+ */
+export async function getArtistAlbumIds(
+  artistId: string,
+  spotifyId: string,
+  limit = 20
+): Promise<string[]> {
+  const response = await spotifyRequest<{ items: Array<{ id: string }> }>(
+    `/artists/${artistId}/albums?include_groups=album,single&limit=${limit}`,
+    spotifyId
+  );
+  return response.items.map((album) => album.id);
+}
+
+/**
+ * Get full tracks for albums (batched, max 20 albums per call)
+ */
+export async function getAlbumTracks(
+  albumIds: string[],
+  spotifyId: string,
+  market?: string
+): Promise<SpotifyTrack[]> {
+  const tracks: SpotifyTrack[] = [];
+
+  for (let i = 0; i < albumIds.length; i += 20) {
+    const batch = albumIds.slice(i, i + 20);
+    const response = await spotifyRequest<{ albums: SpotifySavedAlbum[] }>(
+      `/albums?ids=${batch.join(',')}${marketParam(market)}`,
+      spotifyId
+    );
+
+    // Album track listings are simplified objects without the album
+    for (const album of response.albums.filter(Boolean)) {
+      tracks.push(
+        ...album.tracks.items.map((track) => ({
+          ...track,
+          popularity: 0,
+          album: {
+            id: album.id,
+            name: album.name,
+            release_date: album.release_date,
+            images: album.images,
+          },
+        }))
+      );
+    }
+  }
+
+  return tracks;
+}
+
 /**
  * Get user's top artists
  */
@@ -311,6 +658,12 @@ export async function getTopArtists(
 export async function getUserPlaylists(
   spotifyId: string
 ): Promise<SpotifyPlaylist[]> {
+  await requireScopes(
+    spotifyId,
+    FEATURE_SCOPES['playlist-seeds'],
+    '/me/playlists'
+  );
+
   const playlists: SpotifyPlaylist[] = [];
   let url = '/me/playlists?limit=50';
   
@@ -332,12 +685,14 @@ export async function getUserPlaylists(
  */
 export async function getPlaylistTracks(
   playlistId: string,
-  spotifyId: string
+  spotifyId: string,
+  maxTracks = Infinity,
+  market?: string
 ): Promise<SpotifyTrack[]> {
   const tracks: SpotifyTrack[] = [];
-  let url = `/playlists/${playlistId}/tracks?limit=100`;
+  let url = `/playlists/${playlistId}/tracks?limit=100${marketParam(market)}`;
   
-  while (url) {
+  while (url && tracks.length < maxTracks) {
     const response = await spotifyRequest<{
       items: Array<{ track: SpotifyTrack }>;
       next: string | null;
@@ -350,6 +705,113 @@ export async function getPlaylistTracks(
   return tracks;
 }
 
+/**
+ * Get a playlist's current snapshot ID
+ */
+export async function getPlaylistSnapshotId(
+  playlistId: string,
+  spotifyId: string
+): Promise<string> {
+  const response = await spotifyRequest<{ snapshot_id: string }>(
+    `/playlists/${playlistId}?fields=snapshot_id`,
+    spotifyId
+  );
+  return response.snapshot_id;
+}
+
+/**
+ * Get a playlist's snapshot ID and item URIs in order
+ *
+ * Items without a track (removed from Spotify) are null so positions stay
+ * aligned with the playlist.
+ */
+export async function getPlaylistItems(
+  playlistId: string,
+  spotifyId: string
+): Promise<{ snapshotId: string; uris: Array<string | null> }> {
+  const snapshotId = await getPlaylistSnapshotId(playlistId, spotifyId);
+  const uris: Array<string | null> = [];
+  let url = `/playlists/${playlistId}/tracks?limit=100&fields=items(track(uri)),next`;
+
+  while (url) {
+    const response = await spotifyRequest<{
+      items: Array<{ track: { uri: string } | null }>;
+      next: string | null;
+    }>(url, spotifyId);
+
+    uris.push(...response.items.map((item) => item.track?.uri || null));
+    url = response.next || '';
+  }
+
+  return { snapshotId, uris };
+}
+
+/**
+ * Insert tracks at a position (max 100 per call)
+ */
+export async function addPlaylistItems(
+  playlistId: string,
+  uris: string[],
+  position: number,
+  spotifyId: string
+): Promise<string> {
+  const response = await spotifyRequest<{ snapshot_id: string }>(
+    `/playlists/${playlistId}/tracks`,
+    spotifyId,
+    {
+      method: 'POST',
+      body: JSON.stringify({ uris, position }),
+    }
+  );
+  return response.snapshot_id;
+}
+
+/**
+ * Remove specific occurrences of tracks (max 100 per call)
+ */
+export async function removePlaylistItems(
+  playlistId: string,
+  tracks: Array<{ uri: string; positions: number[] }>,
+  snapshotId: string,
+  spotifyId: string
+): Promise<string> {
+  const response = await spotifyRequest<{ snapshot_id: string }>(
+    `/playlists/${playlistId}/tracks`,
+    spotifyId,
+    {
+      method: 'DELETE',
+      body: JSON.stringify({ tracks, snapshot_id: snapshotId }),
+    }
+  );
+  return response.snapshot_id;
+}
+
+/**
+ * Move one track to sit before another position
+ */
+export async function reorderPlaylistItem(
+  playlistId: string,
+  rangeStart: number,
+  insertBefore: number,
+  snapshotId: string,
+  spotifyId: string
+): Promise<string> {
+  const response = await spotifyRequest<{ snapshot_id: string }>(
+    `/playlists/${playlistId}/tracks`,
+    spotifyId,
+    {
+      method: 'PUT',
+      body: JSON.stringify({
+        range_start: rangeStart,
+        insert_before: insertBefore,
+        range_length: 1,
+        snapshot_id: snapshotId,
+      }),
+    }
+  );
+  return response.snapshot_id;
+}
+
 /**
  * Create a new playlist
  */
@@ -375,6 +837,9 @@ export async function createPlaylist(
 
 /**
  * Replace playlist tracks
+ *
+ * Resets every track's added-at date - prefer syncPlaylist for existing
+ * playlists.
  */
 export async function replacePlaylistTracks(
   playlistId: string,
@@ -429,6 +894,18 @@ export async function uploadPlaylistCover(
   );
 }
 
+/**
+ * Unfollow a playlist (for the owner this removes it from their library)
+ */
+export async function unfollowPlaylist(
+  playlistId: string,
+  spotifyId: string
+): Promise<void> {
+  await spotifyRequest(`/playlists/${playlistId}/followers`, spotifyId, {
+    method: 'DELETE',
+  });
+}
+
 // ============================================================================
 // Recommendations Endpoint
 // ============================================================================
@@ -454,7 +931,8 @@ export interface RecommendationParams {
  */
 export async function getRecommendations(
   params: RecommendationParams,
-  spotifyId: string
+  spotifyId: string,
+  market?: string
 ): Promise<SpotifyTrack[]> {
   const queryParams = new URLSearchParams();
   
@@ -468,6 +946,8 @@ export async function getRecommendations(
     }
   });
   
+  if (market) queryParams.append('market', market);
+  
   const response = await spotifyRequest<{ tracks: SpotifyTrack[] }>(
     `/recommendations?${queryParams.toString()}`,
     spotifyId
@@ -486,13 +966,34 @@ export async function getRecommendations(
 export async function searchTracks(
   query: string,
   spotifyId: string,
-  limit = 20
+  limit = 20,
+  market?: string
 ): Promise<SpotifyTrack[]> {
   const response = await spotifyRequest<{
     tracks: { items: SpotifyTrack[] };
   }>(
-    `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`,
+    `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}${marketParam(market)}`,
     spotifyId
   );
   return response.tracks.items;
 }
+
+/**
+ * Search for public playlists
+ */
+export async function searchPlaylists(
+  query: string,
+  spotifyId: string,
+  limit = 10
+): Promise<SpotifyPlaylist[]> {
+  const response = await spotifyRequest<{
+    playlists: { items: Array<SpotifyPlaylist | null> };
+  }>(
+    `/search?q=${encodeURIComponent(query)}&type=playlist&limit=${limit}`,
+    spotifyId
+  );
+  // Spotify returns null entries for playlists it can't show
+  return response.playlists.items.filter(
+    (playlist): playlist is SpotifyPlaylist => !!playlist
+  );
+}
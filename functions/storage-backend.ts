@@ -0,0 +1,282 @@
+/**
+ * Pluggable storage backends behind the storage helpers
+ *
+ * Backends (STORAGE_BACKEND):
+ * - netlify: Netlify Blobs (default on Netlify, or when SITE_ID and
+ *   NETLIFY_TOKEN are set)
+ * - fs: JSON files under STORAGE_DIR (default off Netlify, for local dev)
+ * - memory: per-process maps, for tests and throwaway runs
+ */
+import { getStore } from '@netlify/blobs';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type StorageMetadata = Record<string, string>;
+
+export interface StoredEntry {
+  data: string;
+  metadata: StorageMetadata;
+}
+
+export interface StorageBackend {
+  get(key: string): Promise<string | null>;
+  getWithMetadata(key: string): Promise<StoredEntry | null>;
+  getMetadata(key: string): Promise<StorageMetadata | null>;
+  set(
+    key: string,
+    data: string,
+    options?: { metadata?: StorageMetadata }
+  ): Promise<void>;
+  list(options?: { prefix?: string }): Promise<string[]>;
+  delete(key: string): Promise<void>;
+}
+
+export type StorageBackendKind = 'netlify' | 'memory' | 'fs';
+
+export type StorageBackendFactory = (storeName: string) => StorageBackend;
+
+const DEFAULT_STORAGE_DIR = '.data';
+
+let activeFactory: StorageBackendFactory | null = null;
+const backends = new Map<string, StorageBackend>();
+
+/**
+ * Override the backend (e.g. from tests); pass null to go back to env config
+ */
+export function setStorageBackend(factory: StorageBackendFactory | null): void {
+  activeFactory = factory;
+  backends.clear();
+}
+
+/**
+ * Get the backend for a named store
+ */
+export function getStorageBackend(storeName: string): StorageBackend {
+  let backend = backends.get(storeName);
+  if (!backend) {
+    const factory =
+      activeFactory ||
+      ((name: string) => createStorageBackend(getStorageBackendKind(), name));
+    backend = factory(storeName);
+    backends.set(storeName, backend);
+  }
+  return backend;
+}
+
+/**
+ * Read the configured backend kind
+ *
+ * On Netlify the default stays netlify even without credentials, so a
+ * misconfigured deploy fails loudly instead of writing user data to the
+ * function's temporary disk.
+ */
+export function getStorageBackendKind(): StorageBackendKind {
+  const kind = process.env.STORAGE_BACKEND;
+  if (!kind) {
+    const onNetlify =
+      !!process.env.NETLIFY ||
+      !!(process.env.SITE_ID && process.env.NETLIFY_TOKEN);
+    return onNetlify ? 'netlify' : 'fs';
+  }
+  if (!['netlify', 'memory', 'fs'].includes(kind)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${kind}"`);
+  }
+  return kind as StorageBackendKind;
+}
+
+/**
+ * Build a backend of the given kind for a named store
+ */
+export function createStorageBackend(
+  kind: StorageBackendKind,
+  storeName: string
+): StorageBackend {
+  switch (kind) {
+    case 'netlify':
+      return createNetlifyBackend(storeName);
+    case 'memory':
+      return createMemoryBackend(storeName);
+    case 'fs':
+      return createFsBackend(
+        path.join(
+          process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR,
+          encodeURIComponent(storeName)
+        )
+      );
+  }
+}
+
+// ============================================================================
+// Netlify Blobs
+// ============================================================================
+
+/**
+ * Netlify Blobs store, authenticated with SITE_ID and NETLIFY_TOKEN
+ */
+export function createNetlifyBackend(storeName: string): StorageBackend {
+  const siteID = process.env.SITE_ID;
+  const token = process.env.NETLIFY_TOKEN;
+
+  if (!siteID) {
+    throw new Error('SITE_ID environment variable is not set');
+  }
+  if (!token) {
+    throw new Error('NETLIFY_TOKEN environment variable is not set');
+  }
+
+  const store = getStore({ name: storeName, siteID, token });
+
+  return {
+    get: (key) => store.get(key),
+    async getWithMetadata(key) {
+      const blob = await store.getWithMetadata(key);
+      if (!blob) return null;
+      return { data: blob.data, metadata: blob.metadata as StorageMetadata };
+    },
+    async getMetadata(key) {
+      const blob = await store.getMetadata(key);
+      return blob ? (blob.metadata as StorageMetadata) : null;
+    },
+    async set(key, data, options) {
+      await store.set(key, data, options);
+    },
+    async list(options) {
+      const { blobs } = await store.list(options);
+      return blobs.map((blob) => blob.key);
+    },
+    delete: (key) => store.delete(key),
+  };
+}
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+// Shared per process so every helper sees the same data for a store
+const memoryStores = new Map<string, Map<string, StoredEntry>>();
+
+/**
+ * In-memory store; contents live as long as the process
+ */
+export function createMemoryBackend(storeName: string): StorageBackend {
+  let entries = memoryStores.get(storeName);
+  if (!entries) {
+    entries = new Map();
+    memoryStores.set(storeName, entries);
+  }
+  const store = entries;
+
+  return {
+    async get(key) {
+      return store.get(key)?.data ?? null;
+    },
+    async getWithMetadata(key) {
+      const entry = store.get(key);
+      return entry
+        ? { data: entry.data, metadata: { ...entry.metadata } }
+        : null;
+    },
+    async getMetadata(key) {
+      const entry = store.get(key);
+      return entry ? { ...entry.metadata } : null;
+    },
+    async set(key, data, options) {
+      store.set(key, { data, metadata: { ...(options?.metadata || {}) } });
+    },
+    async list(options) {
+      const prefix = options?.prefix || '';
+      return [...store.keys()].filter((key) => key.startsWith(prefix)).sort();
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+  };
+}
+
+// ============================================================================
+// Local filesystem
+// ============================================================================
+
+/**
+ * Filesystem store: one JSON file per key, key segments URI-encoded
+ *
+ * URI encoding leaves `.` and `..` alone, so those segments are refused
+ * rather than letting a key point outside the root.
+ */
+export function createFsBackend(root: string): StorageBackend {
+  const resolvedRoot = path.resolve(root);
+
+  const fileFor = (key: string) => {
+    const segments = key.split('/');
+    const file = path.resolve(
+      resolvedRoot,
+      ...segments.map(encodeURIComponent)
+    );
+    if (
+      segments.some((segment) => segment === '.' || segment === '..') ||
+      !file.startsWith(resolvedRoot + path.sep)
+    ) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return file;
+  };
+
+  const keyFor = (file: string) =>
+    path.relative(root, file).split(path.sep).map(decodeURIComponent).join('/');
+
+  const read = async (key: string): Promise<StoredEntry | null> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(key), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const walk = async (dir: string): Promise<string[]> => {
+    let dirents;
+    try {
+      dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const dirent of dirents) {
+      const full = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) files.push(...(await walk(full)));
+      else if (!dirent.name.endsWith('.tmp')) files.push(full);
+    }
+    return files;
+  };
+
+  return {
+    async get(key) {
+      return (await read(key))?.data ?? null;
+    },
+    getWithMetadata: read,
+    async getMetadata(key) {
+      return (await read(key))?.metadata ?? null;
+    },
+    async set(key, data, options) {
+      const file = fileFor(key);
+      const entry: StoredEntry = { data, metadata: options?.metadata || {} };
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry));
+      await fs.rename(tmp, file);
+    },
+    async list(options) {
+      const prefix = options?.prefix || '';
+      return (await walk(root))
+        .map(keyFor)
+        .filter((key) => key.startsWith(prefix))
+        .sort();
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -1,37 +1,45 @@
 /**
- * Storage helpers for Netlify KV and Blob
+ * Storage helpers for KV and Blob data
+ *
+ * Every helper goes through a StorageBackend (Netlify Blobs, filesystem or
+ * memory - see storage-backend.ts).
  */
-import { getStore } from '@netlify/blobs';
-import type { UserData, WorldDefinition, GenerationManifest } from '../src/types';
+import {
+  getStorageBackend,
+  type StorageBackend,
+  type StorageMetadata,
+  type StoredEntry,
+} from './storage-backend';
+import { getSchemaVersion, parseRecord, SCHEMA_VERSIONS } from './schemas';
+import type {
+  WorldDefinition,
+  GenerationManifest,
+  RateLimitBucket,
+  WorldVersionSummary,
+  RunSummary,
+  CachedEmbedding,
+} from '../src/types';
 
 const KV_STORE_NAME = 'tokyo-record-club';
+const RATE_LIMIT_STORE_NAME = 'rate-limits';
+const CACHE_STORE_NAME = 'cache';
+
+// Parallel Blob requests per batch cache call
+const CACHE_CONCURRENCY = 16;
+
+// World versions are save times in epoch ms
+export const WORLD_VERSION_PATTERN = /^\d+$/;
 
 /**
  * Helper to get a configured store
  * @param name - Store name
  */
-function getConfiguredStore(name: string) {
+function getConfiguredStore(name: string): StorageBackend {
   try {
-    // Use explicit environment variables for Blobs authentication
-    const siteID = process.env.SITE_ID;
-    const token = process.env.NETLIFY_TOKEN;
-    
-    if (!siteID) {
-      throw new Error('SITE_ID environment variable is not set');
-    }
-    
-    if (!token) {
-      throw new Error('NETLIFY_TOKEN environment variable is not set');
-    }
-    
-    return getStore({
-      name,
-      siteID,
-      token,
-    });
+    return getStorageBackend(name);
   } catch (error) {
     console.error(`Failed to get store "${name}":`, error);
-    throw new Error(`Netlify Blobs not available: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Storage not available: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -40,23 +48,32 @@ function getConfiguredStore(name: string) {
 // ============================================================================
 
 /**
- * Get user data from KV
+ * Read a JSON record from KV; null when missing, throws when the store or
+ * the stored JSON can't be read
  */
-export async function getUserKV(spotifyId: string): Promise<UserData | null> {
+export async function readKV(key: string): Promise<unknown | null> {
+  const store = getConfiguredStore(KV_STORE_NAME);
+  const data = await store.get(key);
+  return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Read a JSON record from KV, null on any failure (typed access lives in
+ * repository.ts)
+ */
+export async function getKV(key: string): Promise<unknown | null> {
   try {
-    const store = getConfiguredStore(KV_STORE_NAME);
-    const data = await store.get(`user:${spotifyId}`);
-    return data ? JSON.parse(data) : null;
+    return await readKV(key);
   } catch (error) {
-    console.error('Error getting user from KV:', error);
+    console.error(`Error getting "${key}" from KV:`, error);
     return null;
   }
 }
 
 /**
- * Set user data in KV
+ * Write a JSON record to KV
  */
-export async function setUserKV(key: string, data: any): Promise<void> {
+export async function setKV(key: string, data: unknown): Promise<void> {
   try {
     const store = getConfiguredStore(KV_STORE_NAME);
     await store.set(key, JSON.stringify(data));
@@ -67,29 +84,19 @@ export async function setUserKV(key: string, data: any): Promise<void> {
 }
 
 /**
- * Get all active users (for scheduled job)
+ * Delete a KV record
  */
-export async function getAllActiveUsers(): Promise<UserData[]> {
-  try {
-    const store = getConfiguredStore(KV_STORE_NAME);
-    const keys = await store.list({ prefix: 'user:' });
-    
-    const users: UserData[] = [];
-    for (const key of keys.blobs) {
-      const data = await store.get(key.key);
-      if (data) {
-        const user = JSON.parse(data) as UserData;
-        if (user.settings.weeklyEnabled) {
-          users.push(user);
-        }
-      }
-    }
-    
-    return users;
-  } catch (error) {
-    console.error('Error getting all users:', error);
-    return [];
-  }
+export async function deleteKV(key: string): Promise<void> {
+  const store = getConfiguredStore(KV_STORE_NAME);
+  await store.delete(key);
+}
+
+/**
+ * List KV keys with a prefix
+ */
+export async function listKVKeys(prefix = ''): Promise<string[]> {
+  const store = getConfiguredStore(KV_STORE_NAME);
+  return store.list({ prefix });
 }
 
 /**
@@ -134,23 +141,59 @@ export async function setLastRegenTime(
 // ============================================================================
 
 /**
- * Put world definition in Blob
+ * Save a world as a new immutable version and make it the active world
+ *
+ * Returns the version ID. A legacy active world without a version is
+ * archived first so it stays restorable.
  */
 export async function putWorldBlob(
   userId: string,
   world: WorldDefinition
-): Promise<void> {
+): Promise<string> {
   try {
     const store = getConfiguredStore('worlds');
-    await store.set(`users/${userId}/world.json`, JSON.stringify(world), {
-      metadata: { userId, createdAt: world.createdAt.toString() },
+
+    const current = await getWorldBlob(userId);
+    if (current && !current.version) {
+      await putWorldVersion(userId, current, String(current.createdAt));
+    }
+
+    const version = String(Date.now());
+    const versioned = await putWorldVersion(userId, world, version);
+    await store.set(`users/${userId}/world.json`, JSON.stringify(versioned), {
+      metadata: { userId, createdAt: world.createdAt.toString(), version },
     });
+    return version;
   } catch (error) {
     console.error('Error putting world blob:', error);
     throw error;
   }
 }
 
+/**
+ * Update the active world in place without recording a new version
+ * (e.g. to remember playlist mappings)
+ */
+export async function updateActiveWorldBlob(
+  userId: string,
+  world: WorldDefinition
+): Promise<void> {
+  try {
+    const store = getConfiguredStore('worlds');
+    const stamped = { ...world, schemaVersion: SCHEMA_VERSIONS.world };
+    await store.set(`users/${userId}/world.json`, JSON.stringify(stamped), {
+      metadata: {
+        userId,
+        createdAt: world.createdAt.toString(),
+        version: world.version || '',
+      },
+    });
+  } catch (error) {
+    console.error('Error updating world blob:', error);
+    throw error;
+  }
+}
+
 /**
  * Get world definition from Blob
  */
@@ -160,13 +203,125 @@ export async function getWorldBlob(
   try {
     const store = getConfiguredStore('worlds');
     const data = await store.get(`users/${userId}/world.json`);
-    return data ? JSON.parse(data) : null;
+    return data ? parseRecord('world', JSON.parse(data)) : null;
   } catch (error) {
     console.error('Error getting world blob:', error);
     return null;
   }
 }
 
+/**
+ * Write an immutable world version
+ */
+async function putWorldVersion(
+  userId: string,
+  world: WorldDefinition,
+  version: string
+): Promise<WorldDefinition> {
+  const store = getConfiguredStore('worlds');
+  const versioned = {
+    ...world,
+    version,
+    schemaVersion: SCHEMA_VERSIONS.world,
+  };
+  await store.set(
+    `users/${userId}/versions/${version}.json`,
+    JSON.stringify(versioned),
+    {
+      metadata: {
+        userId,
+        version,
+        worldName: world.worldName,
+        createdAt: world.createdAt.toString(),
+      },
+    }
+  );
+  return versioned;
+}
+
+/**
+ * List a user's world versions, newest first
+ */
+export async function listWorldVersions(
+  userId: string
+): Promise<WorldVersionSummary[]> {
+  try {
+    const store = getConfiguredStore('worlds');
+    const keys = await store.list({ prefix: `users/${userId}/versions/` });
+
+    const versions: WorldVersionSummary[] = [];
+    for (const key of keys) {
+      const metadata = await store.getMetadata(key);
+      if (!metadata) continue;
+      versions.push({
+        version: metadata.version,
+        worldName: metadata.worldName,
+        createdAt: parseInt(metadata.createdAt, 10),
+      });
+    }
+
+    return versions.sort((a, b) => Number(b.version) - Number(a.version));
+  } catch (error) {
+    console.error('Error listing world versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get one world version; null for anything that isn't a version ID
+ */
+export async function getWorldVersion(
+  userId: string,
+  version: string
+): Promise<WorldDefinition | null> {
+  // Versions are save times, and never a path into another user's blobs
+  if (!WORLD_VERSION_PATTERN.test(version)) return null;
+
+  try {
+    const store = getConfiguredStore('worlds');
+    const data = await store.get(`users/${userId}/versions/${version}.json`);
+    return data ? parseRecord('world', JSON.parse(data)) : null;
+  } catch (error) {
+    console.error('Error getting world version:', error);
+    return null;
+  }
+}
+
+/**
+ * Rewrite every stored world (active and versions) that predates the
+ * current schema; dry runs only report what would change
+ */
+export async function migrateWorldBlobs(
+  dryRun = false
+): Promise<{ migrated: string[]; invalid: string[] }> {
+  const store = getConfiguredStore('worlds');
+  const keys = await store.list({ prefix: 'users/' });
+
+  const migrated: string[] = [];
+  const invalid: string[] = [];
+  for (const key of keys) {
+    const blob = await store.getWithMetadata(key);
+    if (!blob) continue;
+
+    try {
+      const raw = JSON.parse(blob.data);
+      if (getSchemaVersion(raw) >= SCHEMA_VERSIONS.world) continue;
+
+      const world = parseRecord('world', raw);
+      if (!dryRun) {
+        await store.set(key, JSON.stringify(world), {
+          metadata: blob.metadata,
+        });
+      }
+      migrated.push(key);
+    } catch (error) {
+      console.error(`Invalid world "${key}":`, error);
+      invalid.push(key);
+    }
+  }
+  return { migrated, invalid };
+}
+
 /**
  * Put generation manifest in Blob
  */
@@ -184,6 +339,8 @@ export async function putManifestBlob(
           userId,
           timestamp: manifest.timestamp.toString(),
           worldName: manifest.worldName,
+          playlistCount: manifest.playlists.length.toString(),
+          selected: manifest.candidates.selected.toString(),
         },
       }
     );
@@ -194,50 +351,154 @@ export async function putManifestBlob(
 }
 
 /**
- * Cache Spotify track data (24hr TTL)
+ * List a user's generation runs, newest first
  */
-export async function cacheTrackData(
-  trackId: string,
-  data: any
-): Promise<void> {
+export async function listManifests(userId: string): Promise<RunSummary[]> {
   try {
-    const store = getConfiguredStore('cache');
-    await store.set(`tracks/${trackId}.json`, JSON.stringify(data), {
-      metadata: { cachedAt: Date.now().toString(), ttl: '86400' },
-    });
+    const store = getConfiguredStore('manifests');
+    const keys = await store.list({ prefix: `users/${userId}/runs/` });
+
+    const runs: RunSummary[] = [];
+    for (const key of keys) {
+      const metadata = await store.getMetadata(key);
+      if (!metadata) continue;
+      runs.push({
+        timestamp: parseInt(metadata.timestamp, 10),
+        worldName: metadata.worldName,
+        playlistCount: parseInt(metadata.playlistCount || '0', 10),
+        selected: parseInt(metadata.selected || '0', 10),
+      });
+    }
+
+    return runs.sort((a, b) => b.timestamp - a.timestamp);
   } catch (error) {
-    console.error('Error caching track data:', error);
-    // Non-critical, don't throw
+    console.error('Error listing manifests:', error);
+    return [];
   }
 }
 
 /**
- * Get cached track data
+ * Get one generation manifest
  */
-export async function getCachedTrackData(trackId: string): Promise<any | null> {
+export async function getManifestBlob(
+  userId: string,
+  timestamp: number
+): Promise<GenerationManifest | null> {
   try {
-    const store = getConfiguredStore('cache');
-    const blob = await store.getWithMetadata(`tracks/${trackId}.json`);
-    
-    if (!blob || !blob.data) return null;
-    
-    // Check TTL
-    const cachedAt = parseInt((blob.metadata?.cachedAt as string) || '0', 10);
-    const ttl = parseInt((blob.metadata?.ttl as string) || '86400', 10);
-    const now = Date.now();
-    
-    if (now - cachedAt > ttl * 1000) {
-      // Expired
-      return null;
-    }
-    
-    return JSON.parse(blob.data);
+    const store = getConfiguredStore('manifests');
+    const data = await store.get(`users/${userId}/runs/${timestamp}.json`);
+    return data ? JSON.parse(data) : null;
   } catch (error) {
-    console.error('Error getting cached track data:', error);
+    console.error('Error getting manifest blob:', error);
     return null;
   }
 }
 
+/**
+ * Delete every world version and manifest stored for a user
+ */
+export async function deleteUserBlobs(
+  userId: string
+): Promise<{ worlds: number; manifests: number }> {
+  const counts = { worlds: 0, manifests: 0 };
+
+  for (const name of ['worlds', 'manifests'] as const) {
+    const store = getConfiguredStore(name);
+    const keys = await store.list({ prefix: `users/${userId}/` });
+    for (const key of keys) {
+      await store.delete(key);
+    }
+    counts[name] = keys.length;
+  }
+
+  return counts;
+}
+
+/**
+ * Run an async task per item with at most `limit` in flight
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Read many cache blobs at once; missing or unreadable keys are left out
+ */
+export async function getCacheBlobs(
+  keys: string[]
+): Promise<Map<string, StoredEntry>> {
+  const store = getConfiguredStore(CACHE_STORE_NAME);
+  const entries = new Map<string, StoredEntry>();
+
+  await mapWithConcurrency(keys, CACHE_CONCURRENCY, async (key) => {
+    try {
+      const blob = await store.getWithMetadata(key);
+      if (blob?.data) entries.set(key, blob);
+    } catch (error) {
+      console.error(`Error reading cache blob "${key}":`, error);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Write many cache blobs at once (non-critical - failures are logged)
+ */
+export async function setCacheBlobs(
+  entries: Array<{ key: string } & StoredEntry>
+): Promise<void> {
+  const store = getConfiguredStore(CACHE_STORE_NAME);
+
+  await mapWithConcurrency(entries, CACHE_CONCURRENCY, async (entry) => {
+    try {
+      await store.set(entry.key, entry.data, { metadata: entry.metadata });
+    } catch (error) {
+      console.error(`Error writing cache blob "${entry.key}":`, error);
+    }
+  });
+}
+
+/**
+ * List cache blobs with their metadata (for the sweeper)
+ */
+export async function listCacheBlobMetadata(
+  prefix = ''
+): Promise<Array<{ key: string; metadata: StorageMetadata }>> {
+  const store = getConfiguredStore(CACHE_STORE_NAME);
+  const keys = await store.list({ prefix });
+
+  return mapWithConcurrency(keys, CACHE_CONCURRENCY, async (key) => ({
+    key,
+    metadata: (await store.getMetadata(key)) || {},
+  }));
+}
+
+/**
+ * Delete cache blobs
+ */
+export async function deleteCacheBlobs(keys: string[]): Promise<void> {
+  const store = getConfiguredStore(CACHE_STORE_NAME);
+  await mapWithConcurrency(keys, CACHE_CONCURRENCY, (key) => store.delete(key));
+}
+
 /**
  * Cache audio embeddings (forever - never change)
  */
@@ -272,34 +533,93 @@ export async function getCachedAudioEmbedding(
 }
 
 /**
- * Cache text embeddings (forever - never change)
+ * Get cached text embeddings by content hash (see openai-client.ts)
  */
-export async function cacheTextEmbedding(
-  trackId: string,
-  embedding: number[]
+export async function getCachedTextEmbeddings(
+  hashes: string[]
+): Promise<Map<string, CachedEmbedding>> {
+  const store = getConfiguredStore('embeddings');
+  const embeddings = new Map<string, CachedEmbedding>();
+
+  await mapWithConcurrency(hashes, CACHE_CONCURRENCY, async (hash) => {
+    try {
+      const data = await store.get(`text/${hash}.json`);
+      if (data) embeddings.set(hash, JSON.parse(data));
+    } catch (error) {
+      console.error('Error getting cached text embedding:', error);
+    }
+  });
+
+  return embeddings;
+}
+
+/**
+ * Cache text embeddings by content hash (forever - never change)
+ */
+export async function cacheTextEmbeddings(
+  embeddings: Map<string, CachedEmbedding>
 ): Promise<void> {
+  const store = getConfiguredStore('embeddings');
+
+  await mapWithConcurrency(
+    [...embeddings],
+    CACHE_CONCURRENCY,
+    async ([hash, cached]) => {
+      try {
+        await store.set(`text/${hash}.json`, JSON.stringify(cached), {
+          metadata: {
+            type: 'text',
+            model: cached.model,
+            dimensions: cached.dimensions.toString(),
+          },
+        });
+      } catch (error) {
+        console.error('Error caching text embedding:', error);
+      }
+    }
+  );
+}
+
+// ============================================================================
+// Rate Limit Helpers (shared across function instances)
+// ============================================================================
+
+/**
+ * Get a rate limit bucket
+ */
+export async function getRateLimitBucket(
+  key: string
+): Promise<RateLimitBucket | null> {
   try {
-    const store = getConfiguredStore('embeddings');
-    await store.set(`text/${trackId}.json`, JSON.stringify(embedding), {
-      metadata: { trackId, type: 'text' },
-    });
+    const store = getConfiguredStore(RATE_LIMIT_STORE_NAME);
+    const data = await store.get(`buckets/${key}.json`);
+    return data ? JSON.parse(data) : null;
   } catch (error) {
-    console.error('Error caching text embedding:', error);
+    console.error('Error getting rate limit bucket:', error);
+    return null;
   }
 }
 
 /**
- * Get cached text embedding
+ * Delete a rate limit bucket
  */
-export async function getCachedTextEmbedding(
-  trackId: string
-): Promise<number[] | null> {
+export async function deleteRateLimitBucket(key: string): Promise<void> {
+  const store = getConfiguredStore(RATE_LIMIT_STORE_NAME);
+  await store.delete(`buckets/${key}.json`);
+}
+
+/**
+ * Save a rate limit bucket
+ */
+export async function setRateLimitBucket(
+  key: string,
+  bucket: RateLimitBucket
+): Promise<void> {
   try {
-    const store = getConfiguredStore('embeddings');
-    const data = await store.get(`text/${trackId}.json`);
-    return data ? JSON.parse(data) : null;
+    const store = getConfiguredStore(RATE_LIMIT_STORE_NAME);
+    await store.set(`buckets/${key}.json`, JSON.stringify(bucket));
   } catch (error) {
-    console.error('Error getting cached text embedding:', error);
-    return null;
+    console.error('Error setting rate limit bucket:', error);
+    // Non-critical, the limiter falls back to its local view
   }
 }
@@ -0,0 +1,137 @@
+import { randomBytes } from 'crypto';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  decryptToken,
+  encryptToken,
+  getActiveKeyId,
+  reencryptToken,
+} from './token-crypto';
+import { runMigrations } from './migrations';
+import { getUser, saveUser } from './repository';
+import { DEFAULT_USER_SETTINGS } from './schemas';
+import { createMemoryBackend, setStorageBackend } from './storage-backend';
+
+const OLD_KEY = `old:${randomBytes(32).toString('base64')}`;
+const NEW_KEY = `new:${randomBytes(32).toString('base64')}`;
+
+const useKeys = (...keys: string[]) =>
+  vi.stubEnv('TOKEN_ENCRYPTION_KEYS', keys.join(','));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('token encryption', () => {
+  it('round-trips a token for its owner', () => {
+    useKeys(OLD_KEY);
+    const token = encryptToken('refresh-token', 'someone');
+
+    expect(token.keyId).toBe('old');
+    expect(token.ciphertext).not.toContain('refresh-token');
+    expect(decryptToken(token, 'someone')).toBe('refresh-token');
+  });
+
+  it('uses a fresh IV every time', () => {
+    useKeys(OLD_KEY);
+
+    expect(encryptToken('same', 'someone').iv).not.toBe(
+      encryptToken('same', 'someone').iv
+    );
+  });
+
+  it('refuses tokens copied to another user or tampered with', () => {
+    useKeys(OLD_KEY);
+    const token = encryptToken('refresh-token', 'someone');
+    const flipped = Buffer.from(token.ciphertext, 'base64');
+    flipped[0] ^= 1;
+
+    expect(() => decryptToken(token, 'someone-else')).toThrow();
+    expect(() =>
+      decryptToken(
+        { ...token, ciphertext: flipped.toString('base64') },
+        'someone'
+      )
+    ).toThrow();
+  });
+
+  it.each([
+    ['missing', ''],
+    ['without a key ID', randomBytes(32).toString('base64')],
+    ['too short', `short:${randomBytes(16).toString('base64')}`],
+  ])('rejects keys that are %s', (_, keys) => {
+    useKeys(keys);
+
+    expect(() => encryptToken('refresh-token', 'someone')).toThrow(
+      /TOKEN_ENCRYPTION_KEYS/
+    );
+  });
+});
+
+describe('key rotation', () => {
+  it('encrypts with the first key and still decrypts with the others', () => {
+    useKeys(OLD_KEY);
+    const token = encryptToken('refresh-token', 'someone');
+
+    useKeys(NEW_KEY, OLD_KEY);
+
+    expect(getActiveKeyId()).toBe('new');
+    expect(decryptToken(token, 'someone')).toBe('refresh-token');
+    expect(encryptToken('refresh-token', 'someone').keyId).toBe('new');
+  });
+
+  it('re-encrypts tokens under the active key only when needed', () => {
+    useKeys(OLD_KEY);
+    const token = encryptToken('refresh-token', 'someone');
+
+    useKeys(NEW_KEY, OLD_KEY);
+    const rotated = reencryptToken(token, 'someone');
+
+    expect(rotated.keyId).toBe('new');
+    expect(reencryptToken(rotated, 'someone')).toBe(rotated);
+
+    useKeys(NEW_KEY);
+    expect(decryptToken(rotated, 'someone')).toBe('refresh-token');
+    expect(() => decryptToken(token, 'someone')).toThrow(
+      'Unknown token encryption key "old"'
+    );
+  });
+});
+
+describe('rotation through the migration runner', () => {
+  afterAll(() => {
+    setStorageBackend(null);
+  });
+
+  it('moves stored tokens onto the new key', async () => {
+    setStorageBackend(createMemoryBackend);
+    useKeys(OLD_KEY);
+    for (const spotifyId of ['first', 'second']) {
+      await saveUser({
+        spotifyId,
+        displayName: spotifyId,
+        email: `${spotifyId}@example.test`,
+        refreshToken: encryptToken(`${spotifyId}-refresh`, spotifyId),
+        grantedScopes: [],
+        createdAt: Date.now(),
+        settings: DEFAULT_USER_SETTINGS,
+      });
+    }
+
+    useKeys(NEW_KEY, OLD_KEY);
+    const dryRun = await runMigrations({ dryRun: true });
+    expect(dryRun.tokens.reencrypted.sort()).toEqual(['first', 'second']);
+    expect((await getUser('first'))?.refreshToken.keyId).toBe('old');
+
+    const report = await runMigrations();
+    expect(report.tokens.reencrypted.sort()).toEqual(['first', 'second']);
+
+    useKeys(NEW_KEY);
+    const user = await getUser('first');
+    expect(user?.refreshToken.keyId).toBe('new');
+    expect(decryptToken(user!.refreshToken, 'first')).toBe('first-refresh');
+    expect((await runMigrations()).tokens).toEqual({
+      reencrypted: [],
+      undecryptable: [],
+    });
+  });
+});
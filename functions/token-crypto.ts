@@ -0,0 +1,121 @@
+/**
+ * Refresh token encryption (AES-256-GCM)
+ *
+ * Keys come from TOKEN_ENCRYPTION_KEYS as comma-separated `keyId:base64Key`
+ * pairs. The first key encrypts; the others only decrypt, so a key can be
+ * rotated by putting a new one first and re-encrypting stored tokens with
+ * the migration runner (see migrations.ts) before dropping the old one.
+ *
+ * Ciphertexts are bound to the user's Spotify ID, so a token copied onto
+ * another user's record won't decrypt.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { EncryptedToken } from '../src/types';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface TokenKeys {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let parsedKeys: { source: string; keys: TokenKeys } | null = null;
+
+/**
+ * Parse (and cache) the configured keys; throws when they're missing or
+ * malformed rather than ever storing a token in plaintext
+ */
+function getKeys(): TokenKeys {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS || '';
+  if (parsedKeys?.source === source) return parsedKeys.keys;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of source.split(',').map((part) => part.trim())) {
+    if (!entry) continue;
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (separator <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(
+        `TOKEN_ENCRYPTION_KEYS entry "${keyId || entry}" must be keyId:<${KEY_BYTES} bytes of base64>`
+      );
+    }
+    keys.set(keyId, key);
+  }
+
+  const [activeKeyId] = keys.keys();
+  if (!activeKeyId) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not configured');
+  }
+
+  parsedKeys = { source, keys: { activeKeyId, keys } };
+  return parsedKeys.keys;
+}
+
+/**
+ * The key new tokens are encrypted with
+ */
+export function getActiveKeyId(): string {
+  return getKeys().activeKeyId;
+}
+
+/**
+ * Encrypt a refresh token for the given user with the active key
+ */
+export function encryptToken(
+  plaintext: string,
+  spotifyId: string
+): EncryptedToken {
+  const { activeKeyId, keys } = getKeys();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, keys.get(activeKeyId)!, iv);
+  cipher.setAAD(Buffer.from(spotifyId));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return {
+    keyId: activeKeyId,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a stored refresh token; throws when its key is gone or the
+ * ciphertext was tampered with
+ */
+export function decryptToken(token: EncryptedToken, spotifyId: string): string {
+  const key = getKeys().keys.get(token.keyId);
+  if (!key) {
+    throw new Error(`Unknown token encryption key "${token.keyId}"`);
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(token.iv, 'base64')
+  );
+  decipher.setAAD(Buffer.from(spotifyId));
+  decipher.setAuthTag(Buffer.from(token.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(token.ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Re-encrypt a token under the active key; returns it unchanged when it
+ * already uses that key
+ */
+export function reencryptToken(
+  token: EncryptedToken,
+  spotifyId: string
+): EncryptedToken {
+  if (token.keyId === getActiveKeyId()) return token;
+  return encryptToken(decryptToken(token, spotifyId), spotifyId);
+}
@@ -0,0 +1,107 @@
+/**
+ * Structured diff between two world versions
+ */
+import { cosineSimilarity, euclideanDistance } from './math-utils';
+import type {
+  EmotionalGeometry,
+  IntersectionDefinition,
+  ListDiff,
+  WorldDefinition,
+  WorldDiff,
+} from '../src/types';
+
+const GEOMETRY_AXES: Array<keyof EmotionalGeometry> = [
+  'darkness_warmth',
+  'intimate_expansive',
+  'acoustic_electronic',
+];
+
+function diffList(from: string[] = [], to: string[] = []): ListDiff {
+  const before = new Set(from);
+  const after = new Set(to);
+  return {
+    added: to.filter((item) => !before.has(item)),
+    removed: from.filter((item) => !after.has(item)),
+  };
+}
+
+function vectorDistance(
+  a: number[] = [],
+  b: number[] = [],
+  measure: (a: number[], b: number[]) => number
+): number | null {
+  if (a.length === 0 || a.length !== b.length) return null;
+  return measure(a, b);
+}
+
+function diffIntersections(
+  from: IntersectionDefinition[] = [],
+  to: IntersectionDefinition[] = []
+): WorldDiff['intersections'] {
+  const before = new Map(from.map((i) => [i.name, i]));
+
+  const changed = to.flatMap((after) => {
+    const previous = before.get(after.name);
+    if (!previous) return [];
+
+    const descriptionChanged = previous.description !== after.description;
+    const biasChanged =
+      JSON.stringify(previous.bias) !== JSON.stringify(after.bias);
+    return descriptionChanged || biasChanged
+      ? [{ name: after.name, descriptionChanged, biasChanged }]
+      : [];
+  });
+
+  return {
+    ...diffList(
+      from.map((i) => i.name),
+      to.map((i) => i.name)
+    ),
+    changed,
+  };
+}
+
+/**
+ * Compare two worlds (from → to)
+ */
+export function diffWorlds(
+  from: WorldDefinition,
+  to: WorldDefinition
+): WorldDiff {
+  const geometry = Object.fromEntries(
+    GEOMETRY_AXES.map((axis) => {
+      const before = from.emotionalGeometry?.[axis] ?? 0;
+      const after = to.emotionalGeometry?.[axis] ?? 0;
+      return [axis, { from: before, to: after, delta: after - before }];
+    })
+  ) as WorldDiff['geometry'];
+
+  const semanticSimilarity = vectorDistance(
+    from.semanticCentroid,
+    to.semanticCentroid,
+    cosineSimilarity
+  );
+
+  return {
+    from: from.version || '',
+    to: to.version || '',
+    name: {
+      from: from.worldName,
+      to: to.worldName,
+      changed: from.worldName !== to.worldName,
+    },
+    descriptionChanged: from.description !== to.description,
+    keywords: diffList(from.keywords, to.keywords),
+    excludeKeywords: diffList(from.excludeKeywords, to.excludeKeywords),
+    topGenres: diffList(from.topGenres, to.topGenres),
+    geometry,
+    intersections: diffIntersections(from.intersections, to.intersections),
+    tasteCentroidDistance: vectorDistance(
+      from.tasteCentroid,
+      to.tasteCentroid,
+      euclideanDistance
+    ),
+    semanticCentroidDistance:
+      semanticSimilarity === null ? null : 1 - semanticSimilarity,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * World versions endpoint - list, diff and restore saved worlds
+ *
+ * GET                       list versions, newest first
+ * GET ?from=<v>&to=<v>      diff two versions (to defaults to the active world)
+ * POST { version }          make a version the active world
+ */
+import { z } from 'zod';
+import { createHandler, HttpError, json, route } from './http';
+import {
+  getWorldBlob,
+  getWorldVersion,
+  listWorldVersions,
+  updateActiveWorldBlob,
+  WORLD_VERSION_PATTERN,
+} from './storage';
+import { diffWorlds } from './world-diff';
+
+const versionSchema = z
+  .string()
+  .regex(WORLD_VERSION_PATTERN, 'Invalid world version');
+
+const versionsQuerySchema = z.object({
+  from: versionSchema.optional(),
+  to: versionSchema.optional(),
+});
+
+const restoreBodySchema = z.object({
+  version: versionSchema,
+});
+
+function versionNotFound(): HttpError {
+  return new HttpError(404, 'version_not_found', 'World version not found');
+}
+
+export const handler = createHandler('world-versions', {
+  GET: route({
+    query: versionsQuerySchema,
+    errorMessage: 'Failed to load world versions',
+    handle: async ({ session, query }) => {
+      const { spotifyId } = session;
+      const { from, to } = query;
+      const active = await getWorldBlob(spotifyId);
+
+      if (!from) {
+        const versions = await listWorldVersions(spotifyId);
+        return json({
+          active: active?.version || null,
+          versions,
+        });
+      }
+
+      const fromWorld = await getWorldVersion(spotifyId, from);
+      const toWorld = to ? await getWorldVersion(spotifyId, to) : active;
+      if (!fromWorld || !toWorld) {
+        throw versionNotFound();
+      }
+
+      return json(diffWorlds(fromWorld, toWorld));
+    },
+  }),
+
+  POST: route({
+    body: restoreBodySchema,
+    errorMessage: 'Failed to restore world version',
+    handle: async ({ session, body }) => {
+      const { spotifyId } = session;
+
+      const restored = await getWorldVersion(spotifyId, body.version);
+      if (!restored) {
+        throw versionNotFound();
+      }
+
+      // Playlists belong to the user's Spotify account, not to a version -
+      // keep updating the ones that exist
+      const active = await getWorldBlob(spotifyId);
+      await updateActiveWorldBlob(spotifyId, {
+        ...restored,
+        playlists: { ...restored.playlists, ...(active?.playlists || {}) },
+      });
+
+      return json({
+        active: restored.version,
+        worldName: restored.worldName,
+      });
+    },
+  }),
+});
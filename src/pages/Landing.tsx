@@ -14,15 +14,18 @@ export default function Landing() {
 
   const checkAuth = async () => {
     try {
-      const res = await fetch('/.netlify/functions/me', {
+      const res = await fetch('/api/me', {
         credentials: 'include'
       });
 
       if (res.ok && res.headers.get('content-type')?.includes('application/json')) {
-        // User is authenticated, redirect to seeds
+        // Already signed in: back to where they were headed, else results
+        // if they have a world and seeds if not
         const data = await res.json();
         if (data.spotifyId) {
-          navigate('/seeds');
+          const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+          const isLocal = returnTo?.startsWith('/') && !returnTo.startsWith('//');
+          navigate(isLocal ? returnTo! : data.hasWorld ? '/results' : '/seeds');
           return;
         }
       }
@@ -34,8 +37,11 @@ export default function Landing() {
   };
 
   const handleSignIn = () => {
-    // Redirect to Spotify OAuth
-    window.location.href = '/.netlify/functions/auth';
+    // Redirect to Spotify OAuth, coming back to ?returnTo= if we were sent here
+    const returnTo = new URLSearchParams(window.location.search).get('returnTo');
+    window.location.href = returnTo
+      ? `/.netlify/functions/auth?returnTo=${encodeURIComponent(returnTo)}`
+      : '/.netlify/functions/auth';
   };
 
   if (isLoading) {
@@ -5,19 +5,32 @@ import { Card } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 import type { SpotifyPlaylist, SpotifyTrack } from '../types';
 
-type SeedType = 'history' | 'playlists' | 'tracks';
+type SeedType = 'history' | 'playlists' | 'tracks' | 'library';
 type HistoryRange = 'recent' | '6mo' | '12mo' | 'alltime';
+type LibrarySource = 'liked' | 'albums' | 'artists';
+
+// Some sources need a Spotify permission the user hasn't granted yet - send
+// them to approve just that one, then back here
+function requestConsent(data: { consentUrl?: string }): boolean {
+  if (!data.consentUrl) return false;
+  if (confirm('Spotify needs your permission to read this. Continue to Spotify to allow it?')) {
+    window.location.href = `${data.consentUrl}&returnTo=${encodeURIComponent('/seeds')}`;
+  }
+  return true;
+}
 
 export default function SeedSelection() {
   const navigate = useNavigate();
   const [seedType, setSeedType] = useState<SeedType>('history');
   const [historyRange, setHistoryRange] = useState<HistoryRange>('6mo');
+  const [librarySource, setLibrarySource] = useState<LibrarySource>('liked');
   const [selectedPlaylists, setSelectedPlaylists] = useState<string[]>([]);
   const [selectedTracks, setSelectedTracks] = useState<SpotifyTrack[]>([]);
   const [playlists, setPlaylists] = useState<SpotifyPlaylist[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SpotifyTrack[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Fetch user's playlists on mount
   useEffect(() => {
@@ -32,6 +45,11 @@ export default function SeedSelection() {
         credentials: 'include'
       });
       const data = await res.json();
+      if (!res.ok) {
+        if (requestConsent(data)) return;
+        setError(data.error || 'Failed to load your playlists');
+        return;
+      }
       setPlaylists(data.playlists || []);
     } catch (error) {
       console.error('Failed to fetch playlists:', error);
@@ -46,6 +64,10 @@ export default function SeedSelection() {
         credentials: 'include'
       });
       const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Search failed');
+        return;
+      }
       setSearchResults(data.tracks || []);
     } catch (error) {
       console.error('Search failed:', error);
@@ -70,6 +92,7 @@ export default function SeedSelection() {
 
   const handleContinue = async () => {
     setIsLoading(true);
+    setError(null);
 
     try {
       let seedIds: string[] = [];
@@ -96,6 +119,13 @@ export default function SeedSelection() {
           })
         });
         const data = await res.json();
+        if (!res.ok) {
+          if (requestConsent(data)) {
+            setIsLoading(false);
+            return;
+          }
+          throw new Error(data.error || 'Failed to fetch seeds');
+        }
         seedIds = data.trackIds;
       } else if (seedType === 'playlists') {
         // Fetch from playlists
@@ -109,6 +139,30 @@ export default function SeedSelection() {
           })
         });
         const data = await res.json();
+        if (!res.ok) {
+          if (requestConsent(data)) {
+            setIsLoading(false);
+            return;
+          }
+          throw new Error(data.error || 'Failed to fetch seeds');
+        }
+        seedIds = data.trackIds;
+      } else if (seedType === 'library') {
+        // Fetch from Liked Songs, saved albums or followed artists
+        const res = await fetch('/api/fetch-seeds', {
+          method: 'POST',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: librarySource })
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          if (requestConsent(data)) {
+            setIsLoading(false);
+            return;
+          }
+          throw new Error(data.error || 'Failed to fetch seeds');
+        }
         seedIds = data.trackIds;
       } else if (seedType === 'tracks') {
         // Use selected tracks
@@ -122,12 +176,14 @@ export default function SeedSelection() {
       navigate('/onboarding');
     } catch (error) {
       console.error('Failed to continue:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch seeds');
       setIsLoading(false);
     }
   };
 
   const canContinue = () => {
     if (seedType === 'history') return true;
+    if (seedType === 'library') return true;
     if (seedType === 'playlists') return selectedPlaylists.length > 0;
     if (seedType === 'tracks') return selectedTracks.length >= 3;
     return false;
@@ -163,6 +219,13 @@ export default function SeedSelection() {
             >
               🎵 Playlists
             </Button>
+            <Button
+              variant={seedType === 'library' ? 'default' : 'outline'}
+              onClick={() => setSeedType('library')}
+              className="flex-1"
+            >
+              💚 Your Library
+            </Button>
             <Button
               variant={seedType === 'tracks' ? 'default' : 'outline'}
               onClick={() => setSeedType('tracks')}
@@ -217,6 +280,42 @@ export default function SeedSelection() {
             </Card>
           )}
 
+          {/* Library selection */}
+          {seedType === 'library' && (
+            <Card className="bg-neutral-900 border-neutral-800 p-6">
+              <h3 className="text-xl font-semibold mb-4 text-white">Select From Your Library</h3>
+              <div className="grid grid-cols-3 gap-4">
+                <Button
+                  variant={librarySource === 'liked' ? 'default' : 'outline'}
+                  onClick={() => setLibrarySource('liked')}
+                  className="h-20 flex flex-col items-center justify-center text-white"
+                >
+                  <div className="text-2xl mb-1">💚</div>
+                  <div className="font-semibold">Liked Songs</div>
+                  <div className="text-xs text-neutral-400">Your most recent saves</div>
+                </Button>
+                <Button
+                  variant={librarySource === 'albums' ? 'default' : 'outline'}
+                  onClick={() => setLibrarySource('albums')}
+                  className="h-20 flex flex-col items-center justify-center text-white"
+                >
+                  <div className="text-2xl mb-1">💿</div>
+                  <div className="font-semibold">Saved Albums</div>
+                  <div className="text-xs text-neutral-400">Tracks from your albums</div>
+                </Button>
+                <Button
+                  variant={librarySource === 'artists' ? 'default' : 'outline'}
+                  onClick={() => setLibrarySource('artists')}
+                  className="h-20 flex flex-col items-center justify-center text-white"
+                >
+                  <div className="text-2xl mb-1">🎤</div>
+                  <div className="font-semibold">Followed Artists</div>
+                  <div className="text-xs text-neutral-400">Their top tracks</div>
+                </Button>
+              </div>
+            </Card>
+          )}
+
           {/* Playlist selection */}
           {seedType === 'playlists' && (
             <Card className="bg-neutral-900 border-neutral-800 p-6">
@@ -347,6 +446,13 @@ export default function SeedSelection() {
             </Card>
           )}
 
+          {/* Error */}
+          {error && (
+            <div className="mt-8 p-4 rounded-lg border border-red-800 bg-red-900/30 text-red-300">
+              {error}
+            </div>
+          )}
+
           {/* Continue button */}
           <div className="mt-8 flex justify-end">
             <Button
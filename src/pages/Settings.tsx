@@ -1,12 +1,155 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Label } from '../components/ui/label';
+import type { SessionSummary, UserSettings, WorldDiff, WorldVersionSummary } from '../types';
 
 export default function Settings() {
-  const [cadence, setCadence] = useState<'weekly' | 'biweekly' | 'monthly' | 'manual'>('weekly');
+  const [cadence, setCadence] = useState<UserSettings['cadence']>('weekly');
   const [continuity, setContinuity] = useState(30);
   const [isSaving, setIsSaving] = useState(false);
+  const [versions, setVersions] = useState<WorldVersionSummary[]>([]);
+  const [activeVersion, setActiveVersion] = useState<string | null>(null);
+  const [diff, setDiff] = useState<WorldDiff | null>(null);
+  const [historyBusy, setHistoryBusy] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionsBusy, setSessionsBusy] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+    loadVersions();
+    loadSessions();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const res = await fetch('/api/me', { credentials: 'include' });
+      if (!res.ok) return;
+      const { settings } = await res.json();
+      setCadence(settings.cadence);
+      setContinuity(Math.round(settings.continuity * 100));
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  };
+
+  const loadVersions = async () => {
+    try {
+      const res = await fetch('/api/world-versions', { credentials: 'include' });
+      if (!res.ok) return;
+      const data = await res.json();
+      setVersions(data.versions);
+      setActiveVersion(data.active);
+    } catch (error) {
+      console.error('Failed to load world history:', error);
+    }
+  };
+
+  const loadSessions = async () => {
+    try {
+      const res = await fetch('/api/sessions', { credentials: 'include' });
+      if (!res.ok) return;
+      const data = await res.json();
+      setSessions(data.sessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  };
+
+  const handleRevokeSession = async (query: string) => {
+    setSessionsBusy(true);
+    try {
+      const res = await fetch(`/api/sessions?${query}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!res.ok) throw new Error('Failed to revoke');
+      await loadSessions();
+    } catch (error) {
+      console.error('Revoke failed:', error);
+      alert('Failed to sign out that device');
+    } finally {
+      setSessionsBusy(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/logout', { method: 'POST', credentials: 'include' });
+    } finally {
+      window.location.href = '/';
+    }
+  };
+
+  const handleCompare = async (version: string) => {
+    setHistoryBusy(version);
+    try {
+      const res = await fetch(`/api/world-versions?from=${version}`, {
+        credentials: 'include'
+      });
+      if (!res.ok) throw new Error('Failed to compare');
+      setDiff(await res.json());
+    } catch (error) {
+      console.error('Compare failed:', error);
+      alert('Failed to compare worlds');
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const handleRestore = async (version: WorldVersionSummary) => {
+    if (!confirm(`Restore "${version.worldName}" as your active world?`)) return;
+
+    setHistoryBusy(version.version);
+    try {
+      const res = await fetch('/api/world-versions', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: version.version })
+      });
+      if (!res.ok) throw new Error('Failed to restore');
+      setDiff(null);
+      await loadVersions();
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert('Failed to restore world');
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const handleExport = () => {
+    // The endpoint answers with a download, so let the browser handle it
+    window.location.href = '/api/account';
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete your account? Your worlds, history and settings will be permanently removed.')) return;
+    const unfollowPlaylists = confirm(
+      'Also remove the playlists we created from your Spotify library?\n\nOK to remove them, Cancel to keep them.'
+    );
+
+    setIsDeleting(true);
+    try {
+      const res = await fetch(`/api/account${unfollowPlaylists ? '?unfollowPlaylists=1' : ''}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!res.ok) throw new Error('Failed to delete');
+
+      const report = await res.json();
+      if (report.playlistsFailed.length > 0) {
+        alert(`Your data was deleted, but ${report.playlistsFailed.length} playlist(s) could not be removed from Spotify.`);
+      }
+      window.location.href = '/';
+    } catch (error) {
+      console.error('Delete failed:', error);
+      alert('Failed to delete your account');
+      setIsDeleting(false);
+    }
+  };
 
   const handleSave = async () => {
     setIsSaving(true);
@@ -19,7 +162,7 @@ export default function Settings() {
         body: JSON.stringify({
           settings: {
             cadence,
-            continuity
+            continuity: continuity / 100
           }
         })
       });
@@ -111,6 +254,140 @@ export default function Settings() {
             </div>
           </Card>
 
+          {/* World History */}
+          {versions.length > 0 && (
+            <Card className="bg-neutral-900 border-neutral-800 p-6 mb-6">
+              <h3 className="text-xl font-semibold mb-4">World History</h3>
+              <p className="text-neutral-400 text-sm mb-4">
+                Every world you build is kept. Compare an older one with your current world or bring it back.
+              </p>
+
+              <div className="space-y-3">
+                {versions.map((version) => (
+                  <div
+                    key={version.version}
+                    className="p-4 rounded-lg border bg-neutral-800 border-neutral-700 flex items-center justify-between gap-4"
+                  >
+                    <div>
+                      <div className="font-medium">{version.worldName}</div>
+                      <div className="text-sm text-neutral-400">
+                        {new Date(Number(version.version)).toLocaleString()}
+                      </div>
+                    </div>
+                    {version.version === activeVersion ? (
+                      <span className="text-sm text-emerald-400">Active</span>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          disabled={historyBusy !== null}
+                          onClick={() => handleCompare(version.version)}
+                        >
+                          Compare
+                        </Button>
+                        <Button
+                          variant="outline"
+                          disabled={historyBusy !== null}
+                          onClick={() => handleRestore(version)}
+                        >
+                          Restore
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {diff && (
+                <div className="mt-4 p-4 rounded-lg bg-neutral-950 border border-neutral-800 text-sm space-y-1">
+                  <div className="font-medium mb-2">
+                    {diff.name.changed ? `${diff.name.from} → ${diff.name.to}` : diff.name.to}
+                  </div>
+                  {diff.keywords.added.length > 0 && (
+                    <div className="text-emerald-400">+ {diff.keywords.added.join(', ')}</div>
+                  )}
+                  {diff.keywords.removed.length > 0 && (
+                    <div className="text-red-400">− {diff.keywords.removed.join(', ')}</div>
+                  )}
+                  {Object.entries(diff.geometry)
+                    .filter(([, axis]) => Math.abs(axis.delta) >= 0.05)
+                    .map(([name, axis]) => (
+                      <div key={name} className="text-neutral-400">
+                        {name.replace('_', ' ↔ ')}: {axis.from.toFixed(2)} → {axis.to.toFixed(2)}
+                      </div>
+                    ))}
+                  {diff.intersections.added.length > 0 && (
+                    <div className="text-emerald-400">
+                      New playlists: {diff.intersections.added.join(', ')}
+                    </div>
+                  )}
+                  {diff.intersections.removed.length > 0 && (
+                    <div className="text-red-400">
+                      Dropped playlists: {diff.intersections.removed.join(', ')}
+                    </div>
+                  )}
+                  {diff.tasteCentroidDistance !== null && (
+                    <div className="text-neutral-400">
+                      Taste distance: {diff.tasteCentroidDistance.toFixed(3)}
+                    </div>
+                  )}
+                </div>
+              )}
+            </Card>
+          )}
+
+          {/* Sessions */}
+          {sessions.length > 0 && (
+            <Card className="bg-neutral-900 border-neutral-800 p-6 mb-6">
+              <h3 className="text-xl font-semibold mb-4">Signed-in Devices</h3>
+              <p className="text-neutral-400 text-sm mb-4">
+                Devices signed in to your account. Sign out any you don't recognize.
+              </p>
+
+              <div className="space-y-3">
+                {sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className="p-4 rounded-lg border bg-neutral-800 border-neutral-700 flex items-center justify-between gap-4"
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {session.device}
+                        {session.current && (
+                          <span className="ml-2 text-xs text-emerald-400">This device</span>
+                        )}
+                      </div>
+                      <div className="text-sm text-neutral-400">
+                        Signed in {new Date(session.createdAt).toLocaleDateString()} · Last seen{' '}
+                        {new Date(session.lastSeenAt).toLocaleString()}
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        disabled={sessionsBusy}
+                        onClick={() => handleRevokeSession(`id=${encodeURIComponent(session.id)}`)}
+                      >
+                        Sign Out
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {sessions.length > 1 && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-4"
+                  disabled={sessionsBusy}
+                  onClick={() => handleRevokeSession('others=1')}
+                >
+                  Sign Out All Other Devices
+                </Button>
+              )}
+            </Card>
+          )}
+
           {/* Account */}
           <Card className="bg-neutral-900 border-neutral-800 p-6 mb-6">
             <h3 className="text-xl font-semibold mb-4">Account</h3>
@@ -124,17 +401,29 @@ export default function Settings() {
                 🔄 Rebuild World from Scratch
               </Button>
               
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleExport}
+              >
+                📦 Download My Data
+              </Button>
+
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleLogout}
+              >
+                🚪 Log Out
+              </Button>
+
               <Button
                 variant="outline"
                 className="w-full text-red-400 border-red-800 hover:bg-red-900/30"
-                onClick={() => {
-                  if (confirm('Are you sure? This will delete your world and all playlists.')) {
-                    // TODO: Implement delete
-                    alert('Delete not implemented yet');
-                  }
-                }}
+                disabled={isDeleting}
+                onClick={handleDelete}
               >
-                🗑️ Delete My World
+                {isDeleting ? 'Deleting...' : '🗑️ Delete My Account & Data'}
               </Button>
             </div>
           </Card>
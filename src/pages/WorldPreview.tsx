@@ -2,18 +2,12 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../components/ui/card';
 import { Button } from '../components/ui/button';
-
-interface JobStatus {
-  status: 'building' | 'generating' | 'complete' | 'failed';
-  progress: number;
-  currentStep: string;
-  worldId?: string;
-  error?: string;
-}
+import type { Job } from '../types';
 
 export default function WorldPreview() {
   const navigate = useNavigate();
-  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [status, setStatus] = useState<Job | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isGeneratingPlaylists, setIsGeneratingPlaylists] = useState(false);
   const [pollCount, setPollCount] = useState(0);
@@ -65,6 +59,8 @@ export default function WorldPreview() {
         }, 1500);
       } else if (data.status === 'failed') {
         setError(data.error || 'Failed to build world. Please try again.');
+      } else if (data.status === 'cancelled') {
+        navigate('/seeds');
       }
     } catch (error) {
       console.error('Failed to check status:', error);
@@ -102,8 +98,10 @@ export default function WorldPreview() {
               // Navigate to results
               navigate('/results');
             } else if (statusData.status === 'failed') {
-              setError('Failed to generate playlists. Please try again from the results page.');
+              setError(statusData.error || 'Failed to generate playlists. Please try again from the results page.');
               setTimeout(() => navigate('/results'), 3000);
+            } else if (statusData.status === 'cancelled') {
+              navigate('/results');
             } else {
               // Keep polling
               setTimeout(checkPlaylistStatus, 2000);
@@ -129,6 +127,29 @@ export default function WorldPreview() {
     navigate('/seeds');
   };
 
+  const handleCancel = async () => {
+    const jobId = sessionStorage.getItem('worldJobId');
+    if (!jobId) return;
+
+    setIsCancelling(true);
+    try {
+      const res = await fetch('/api/cancel-job', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ jobId })
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to cancel');
+      }
+      // The next poll sees the job as cancelled once the current step ends
+    } catch (error) {
+      console.error('Failed to cancel world building:', error);
+      setIsCancelling(false);
+    }
+  };
+
   const progress = status?.progress || 0;
   const currentStep = status?.currentStep || 'Starting...';
   const isComplete = status?.status === 'complete';
@@ -217,6 +238,17 @@ export default function WorldPreview() {
                 </div>
               </div>
             )}
+
+            {!isGeneratingPlaylists && !isComplete && (
+              <Button
+                onClick={handleCancel}
+                disabled={isCancelling}
+                variant="outline"
+                className="mt-8 border-neutral-700"
+              >
+                {isCancelling ? 'Cancelling...' : 'Cancel'}
+              </Button>
+            )}
           </Card>
 
           <p className="text-center text-neutral-500 mt-8 text-sm">
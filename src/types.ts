@@ -20,6 +20,7 @@ export interface SpotifyUser {
   email: string;
   images: Array<{ url: string }>;
   product: string;
+  country?: string; // ISO 3166-1 alpha-2, needs user-read-private
 }
 
 export interface SpotifyTrack {
@@ -38,6 +39,8 @@ export interface SpotifyTrack {
   popularity: number;
   preview_url: string | null;
   releaseDate?: string; // Alias for album.release_date
+  is_playable?: boolean; // Only set when a market is requested
+  restrictions?: { reason: string };
 }
 
 export interface SpotifyAudioFeatures {
@@ -82,29 +85,62 @@ export interface SpotifyPlaylist {
   };
 }
 
+export interface SpotifySavedAlbum {
+  id: string;
+  name: string;
+  release_date: string;
+  images: Array<{ url: string }>;
+  artists: Array<{ id: string; name: string }>;
+  tracks: {
+    total: number;
+    items: Array<Omit<SpotifyTrack, 'album' | 'popularity'>>;
+  };
+}
+
 // ============================================================================
 // Application Types
 // ============================================================================
 
 export interface UserData {
+  schemaVersion?: number; // Set by the repository on write
   spotifyId: string;
   displayName: string;
   email: string;
-  refreshToken: string;
+  country?: string; // Spotify market the user's tracks must be playable in
+  refreshToken: EncryptedToken; // Decrypted only to refresh (see token-crypto.ts)
+  accessToken?: string; // Cached Spotify access token
+  accessTokenExpiresAt?: number; // Epoch ms when accessToken expires
+  grantedScopes: string[]; // Spotify scopes the user has approved (see scopes.ts)
   createdAt: number;
   lastRunAt?: number;
+  lastWeeklyRefresh?: number;
+  nextRunAt?: number; // Next scheduled refresh, kept by the repository
+  loginHistory?: LoginRecord[]; // Most recent first, capped (see callback.ts)
+  sessionsRevokedBefore?: number; // Epoch ms; ends session tokens without a sid issued earlier
   settings: UserSettings;
 }
 
+export interface LoginRecord {
+  at: number;
+  device: string;
+}
+
+export interface EncryptedToken {
+  keyId: string; // Which TOKEN_ENCRYPTION_KEYS entry encrypted it
+  iv: string; // base64
+  tag: string; // base64 GCM auth tag
+  ciphertext: string; // base64
+}
+
 export interface UserSettings {
-  cadence: 'weekly' | 'biweekly' | 'monthly';
+  cadence: 'weekly' | 'biweekly' | 'monthly' | 'manual';
   continuity: number; // 0-1, percentage of tracks to keep on refresh
   blocklist: string[]; // track IDs to never recommend
   weeklyEnabled: boolean;
 }
 
 export interface SeedSelection {
-  type: 'history' | 'playlists' | 'tracks';
+  type: 'history' | 'playlists' | 'tracks' | 'liked' | 'albums' | 'artists';
   // For history type
   historyPeriod?: 'recent' | 'short_term' | 'medium_term' | 'long_term';
   // For playlists type
@@ -141,6 +177,8 @@ export interface ConversationTranscript {
 
 export interface WorldDefinition {
   id?: string; // Job ID or unique identifier
+  version?: string; // Immutable version this world was saved as
+  schemaVersion?: number;
   userId: string;
   createdAt: number;
   worldName: string;
@@ -193,6 +231,12 @@ export interface WorldDefinition {
   };
 }
 
+export interface WorldVersionSummary {
+  version: string; // Save time in epoch ms
+  worldName: string;
+  createdAt: number;
+}
+
 export interface IntersectionDefinition {
   name: string;
   description: string;
@@ -207,7 +251,7 @@ export interface IntersectionDefinition {
 }
 
 export interface EnrichedTrack extends SpotifyTrack {
-  audioFeatures: SpotifyAudioFeatures;
+  audioFeatures?: SpotifyAudioFeatures; // Missing when Spotify has no features
   artistGenres: string[];
   genres?: string[]; // Alias for artistGenres
   primaryGenre: string;
@@ -223,21 +267,159 @@ export interface EnrichedTrack extends SpotifyTrack {
   };
 }
 
+export interface ManifestTrack {
+  id: string;
+  uri: string;
+  name: string;
+  artists: string[];
+  sources: string[]; // Candidate sources that found the track
+  hasAudioFeatures: boolean;
+  scores: {
+    semantic: number;
+    spotify: number;
+    novelty: number;
+    diversity: number;
+    final: number;
+    intersection: number; // Final score plus the intersection's bias
+  };
+}
+
 export interface GenerationManifest {
   userId: string;
+  jobId?: string;
   timestamp: number;
   worldName: string;
+  worldVersion?: string;
   playlists: Array<{
     intersectionName: string;
     playlistId: string;
     playlistUrl: string;
-    tracks: EnrichedTrack[];
+    tracks: ManifestTrack[];
   }>;
+  // Candidate funnel, in pipeline order
   candidates: {
-    total: number;
-    filtered: number;
-    selected: number;
+    total: number; // Harvested from all sources
+    playable: number; // Playable in the user's market
+    filtered: number; // After the blocklist
+    coarseFiltered: number; // Within the world's feature ranges
+    selected: number; // Placed in a playlist
   };
+  candidateSources?: Record<string, { count: number; error?: string }>;
+  featureCoverage?: Omit<FeatureCoverage, 'missingTrackIds'>;
+}
+
+export interface RunSummary {
+  timestamp: number;
+  worldName: string;
+  playlistCount: number;
+  selected: number;
+}
+
+export interface FeatureCoverage {
+  total: number; // Tracks we asked for
+  withFeatures: number; // Tracks Spotify returned audio features for
+  ratio: number; // withFeatures / total
+  missingTrackIds: string[];
+}
+
+export type JobKind =
+  | 'build-world'
+  | 'generate-playlists'
+  | 'regenerate-playlist';
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'complete'
+  | 'failed'
+  | 'cancelled';
+
+export interface JobStep {
+  name: string;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface JobResult {
+  // Build results
+  worldId?: string;
+  worldVersion?: string;
+  featureCoverage?: Pick<FeatureCoverage, 'total' | 'withFeatures' | 'ratio'>;
+  // Generation results
+  playlistName?: string;
+  playlistCount?: number;
+  candidateSources?: Record<string, { count: number; error?: string }>;
+  runTimestamp?: number;
+}
+
+export interface Job {
+  schemaVersion?: number;
+  id: string;
+  kind: JobKind;
+  ownerId: string; // Spotify ID of the user who started it
+  status: JobStatus;
+  progress: number; // 0-100
+  currentStep?: string;
+  steps: JobStep[];
+  error?: string;
+  reason?: string; // SpotifyErrorReason when the failure came from Spotify
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  expiresAt: number; // Deleted after this (see job-store.ts)
+  result?: JobResult;
+}
+
+export interface SessionRecord {
+  schemaVersion?: number;
+  id: string; // Carried in the session JWT as `sid`
+  spotifyId: string;
+  device: string; // e.g. "Firefox on macOS", from the user agent at sign-in
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  createdAt: number;
+  lastSeenAt: number;
+  current: boolean; // The session making the request
+}
+
+export interface AccountExport {
+  exportedAt: number;
+  // Tokens are credentials, not user data, and are never exported
+  user: Omit<UserData, 'refreshToken' | 'accessToken' | 'accessTokenExpiresAt'>;
+  worlds: {
+    active: WorldDefinition | null;
+    versions: WorldDefinition[];
+  };
+  manifests: GenerationManifest[];
+  feedback: {
+    blocklist: string[]; // Tracks the user asked never to see again
+  };
+}
+
+export interface AccountDeletionReport {
+  kvRecords: number;
+  worlds: number; // Active world and versions
+  manifests: number;
+  playlistsUnfollowed: string[];
+  playlistsFailed: string[];
+}
+
+export interface CachedEmbedding {
+  model: string;
+  dimensions: number;
+  embedding: number[];
+}
+
+export interface RateLimitBucket {
+  tokens: number; // Tokens left after the last refill
+  updatedAt: number; // Epoch ms of the last refill
+  blockedUntil: number; // Epoch ms until which Spotify asked us to back off
 }
 
 // ============================================================================
@@ -273,3 +455,32 @@ export interface GeneratePlaylistsResponse {
     trackCount: number;
   }>;
 }
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface WorldDiff {
+  from: string; // Version IDs
+  to: string;
+  name: { from: string; to: string; changed: boolean };
+  descriptionChanged: boolean;
+  keywords: ListDiff;
+  excludeKeywords: ListDiff;
+  topGenres: ListDiff;
+  geometry: Record<
+    keyof EmotionalGeometry,
+    { from: number; to: number; delta: number }
+  >;
+  intersections: ListDiff & {
+    changed: Array<{
+      name: string;
+      descriptionChanged: boolean;
+      biasChanged: boolean;
+    }>;
+  };
+  // Null when the vectors can't be compared (e.g. different dimensions)
+  tasteCentroidDistance: number | null;
+  semanticCentroidDistance: number | null; // 1 - cosine similarity
+}